@@ -0,0 +1,87 @@
+/**
+ * A minimal stand-in for the Obsidian API, which only exists inside the app.
+ * It provides the classes the plugin extends and the helpers it calls; the tests build the rest of `App` themselves.
+ */
+
+export class TAbstractFile {
+    path = '';
+    name = '';
+}
+
+export class TFile extends TAbstractFile {
+    basename = '';
+    extension = 'md';
+}
+
+export class TFolder extends TAbstractFile {}
+
+export class Plugin {
+    app: unknown;
+    manifest: unknown;
+
+    constructor(app: unknown, manifest: unknown) {
+        this.app = app;
+        this.manifest = manifest;
+    }
+}
+
+export class Modal {
+    app: unknown;
+
+    constructor(app: unknown) {
+        this.app = app;
+    }
+
+    open() {}
+
+    close() {}
+}
+
+export class ItemView {
+    leaf: unknown;
+
+    constructor(leaf: unknown) {
+        this.leaf = leaf;
+    }
+}
+
+export class PluginSettingTab {
+    app: unknown;
+    plugin: unknown;
+
+    constructor(app: unknown, plugin: unknown) {
+        this.app = app;
+        this.plugin = plugin;
+    }
+}
+
+export class Setting {}
+
+// Notices are collected so that tests can check what the user was told.
+export const notices: string[] = [];
+
+export class Notice {
+    constructor(message: string) {
+        notices.push(message);
+    }
+}
+
+// The tags of the body, then those of the frontmatter, each with its leading "#".
+export function getAllTags(cache: { tags?: { tag: string }[], frontmatter?: Record<string, unknown> }): string[] {
+    const frontmatterTags = ([] as unknown[]).concat(cache.frontmatter?.tags ?? []).map(tag => `#${String(tag).replace(/^#/, '')}`);
+    return (cache.tags ?? []).map(({ tag }) => tag).concat(frontmatterTags);
+}
+
+export function parseFrontMatterAliases(frontmatter: Record<string, unknown> | undefined): string[] | null {
+    const aliases = frontmatter?.aliases;
+    return aliases === undefined ? null : ([] as unknown[]).concat(aliases).map(String);
+}
+
+export function parseFrontMatterEntry(frontmatter: Record<string, unknown> | undefined, key: string): unknown {
+    return frontmatter?.[key] ?? null;
+}
+
+export function parseLinktext(linktext: string): { path: string, subpath: string } {
+    const index = linktext.indexOf('#');
+    return index < 0 ? { path: linktext, subpath: '' } : { path: linktext.slice(0, index), subpath: linktext.slice(index) };
+}
@@ -1,28 +1,320 @@
-import { App, Modal, Notice, Plugin, PluginSettingTab, Setting, TFile, TFolder } from 'obsidian';
+import { App, CachedMetadata, DataAdapter, ItemView, Modal, Notice, Plugin, PluginSettingTab, Setting, TAbstractFile, TFile, TFolder, WorkspaceLeaf, getAllTags, parseFrontMatterAliases, parseFrontMatterEntry, parseLinktext } from 'obsidian';
 
 /**
  * Defines the settings structure for the TitleMatchLinker plugin.
  */
 interface TitleMatchLinkerSettings {
     mySetting: string; // Placeholder for a setting, potentially used for future enhancements.
-    excludedFolders: string[]; // List of folder paths to exclude from the link creation process.
+    excludedFolders: string[]; // Exclusion rules (folder paths, globs, regular expressions, negations) applied to the link creation process.
+    preserveOriginalCasing: boolean; // Keep the matched text as display text when its casing differs from the note title.
+    ignoreDiacritics: boolean; // Match titles regardless of accents, so "cafe" matches "Café".
+    cjkSegmentation: boolean; // Require matches in Chinese and Japanese text to align with dictionary word boundaries.
+    linkInHeadings: boolean; // Allow links to be created inside headings.
+    linkInTables: boolean; // Allow links to be created inside table cells.
+    linkInBlockquotes: boolean; // Allow links to be created inside blockquotes that are not callouts.
+    protectedCalloutTypes: string[]; // Callout types (e.g. "quote", "abstract") whose content never receives links; "*" protects all callouts.
+    sourceScope: string[]; // Scope rules selecting the notes that may be modified. Empty means the whole vault.
+    targetScope: string[]; // Scope rules selecting the notes that may become link targets. Empty means the whole vault.
+    ignoredTitles: string[]; // Titles and aliases that are never linked, compared case-insensitively.
+    minimumTitleLength: number; // Titles and aliases shorter than this number of characters are never linked.
+    detectCommonTitles: boolean; // Ask for confirmation before linking titles that appear in many notes.
+    commonTitleThreshold: number; // Percentage of the source notes a title must appear in to be considered common.
+    duplicateTitleStrategy: 'nearest' | 'priority' | 'skip'; // How to choose between notes that share a title.
+    folderPriority: string[]; // Folders to prefer, in order, when the duplicate title strategy is 'priority'.
+    inflectionMode: string; // Id of the inflector used to match inflected forms of titles, or 'off'.
+    inflectionExcludedTitles: string[]; // Titles and aliases that only match their exact form, compared case-insensitively.
+    linkToHeadings: boolean; // Whether headings inside target notes are also matched, producing [[Note#Heading|text]] links.
+    headingLevels: number[]; // The heading levels (1 to 6) that can become link targets.
+    linkFrequency: 'every' | 'first-in-note' | 'first-in-section'; // Which mentions of a target receive a link.
+    maxLinksPerNote: number; // The maximum number of links added to a single note in one run. 0 means no limit.
+    glossaryPath: string; // Path of the note or JSON file mapping phrases to target notes. Empty means no glossary.
+    linkStyle: 'vault' | 'wikilink' | 'markdown'; // The syntax of created links; 'vault' follows "Use [[Wikilinks]]".
+    linkPathFormat: 'vault' | 'shortest' | 'relative' | 'absolute'; // The path written in created links; 'vault' follows "New link format".
+    reviewBeforeWriting: boolean; // Whether proposed links are shown for approval before any note is modified.
+    backupLocation: 'vault' | 'plugin'; // Where new backups are stored: the _tmlbackups folder, or the plugin's folder in the config directory.
 
 }
 
 /**
  * Default settings for the TitleMatchLinker plugin. Applied on initial load or when settings are reset.
  */
-const DEFAULT_SETTINGS: TitleMatchLinkerSettings = {
+export const DEFAULT_SETTINGS: TitleMatchLinkerSettings = {
     mySetting: 'default', // Example default value. Adjust based on actual use case.
-    excludedFolders: [], // By default, no folders are excluded.
+    excludedFolders: [], // By default, no notes are excluded.
+    preserveOriginalCasing: true, // By default, the prose is left as written and only wrapped in links.
+    ignoreDiacritics: false, // By default, accents must match.
+    cjkSegmentation: false, // By default, each Chinese or Japanese character counts as a word of its own.
+    linkInHeadings: true, // By default, every Markdown construct with prose can receive links.
+    linkInTables: true,
+    linkInBlockquotes: true,
+    protectedCalloutTypes: [],
+    sourceScope: [], // By default, any note can be modified and linked to.
+    targetScope: [],
+    ignoredTitles: [], // By default, every title can be linked.
+    minimumTitleLength: 0,
+    detectCommonTitles: true,
+    commonTitleThreshold: 10,
+    duplicateTitleStrategy: 'nearest', // By default, the note closest to the linking note wins.
+    folderPriority: [],
+    inflectionMode: 'off', // By default, only the exact form of a title is matched.
+    inflectionExcludedTitles: [],
+    linkToHeadings: false, // By default, only whole notes are linked.
+    headingLevels: [2, 3], // Level 1 headings usually repeat the note title.
+    linkFrequency: 'every', // By default, every mention is linked.
+    maxLinksPerNote: 0,
+    glossaryPath: '',
+    linkStyle: 'vault', // By default, links are written the way Obsidian itself writes them.
+    linkPathFormat: 'vault',
+    reviewBeforeWriting: false, // By default, links are written as soon as they are found.
+    backupLocation: 'vault', // By default, backups are stored where they can be browsed from Obsidian.
     
 };
 
+/**
+ * The smallest number of notes a title must appear in before it can be flagged as a common title.
+ */
+const COMMON_TITLE_MINIMUM_NOTES = 5;
+
+/**
+ * A piece of text that should be turned into a link to a target note when it is found in a note.
+ * Candidates are built from note basenames, from the `aliases` frontmatter of each note, and optionally from its headings.
+ */
+interface LinkCandidate {
+    text: string; // The text to search for in the note content.
+    file: TFile; // The note the created link should point to.
+    kind: LinkCandidateKind; // Where the text comes from.
+    inflectedFrom?: string; // For inflections, the title, alias, or heading the text was derived from.
+    subpath?: string; // For headings and their inflections, the part of the link after the note name, such as "#Setup".
+    pattern?: RegExp; // For regex glossary phrases, the expression to search for instead of the text.
+}
+
+/**
+ * The origin of a link candidate: a phrase of the glossary, the note's basename, an entry of its `aliases` frontmatter,
+ * a heading inside the note, or an inflected form (such as a plural) of any of these.
+ */
+type LinkCandidateKind = 'glossary' | 'title' | 'alias' | 'heading' | 'inflection';
+
+/**
+ * The order in which candidate kinds win when matches of the same length overlap. Lower wins.
+ */
+const CANDIDATE_KIND_PRIORITY: Record<LinkCandidateKind, number> = {
+    glossary: 0,
+    title: 1,
+    alias: 2,
+    heading: 3,
+    inflection: 4,
+};
+
+/**
+ * Produces the inflected forms of a title for one language, such as "projects" and "project's" for "project".
+ * Implement this interface and pass it to `TitleMatchLinker.registerInflector` to support another language.
+ */
+interface Inflector {
+    id: string; // Stored in the settings; must be unique.
+    name: string; // Shown in the settings tab.
+    inflect(text: string): string[]; // Returns the inflected forms of a title, which may include the title itself.
+}
+
+/**
+ * English plural and possessive forms. Only the last word of a title is inflected, so "Machine Learning Model"
+ * also matches "machine learning models". Common irregular plurals and Greek or Latin "-is" plurals are handled.
+ */
+const ENGLISH_INFLECTOR: Inflector = {
+    id: 'english',
+    name: 'English (plurals and possessives)',
+    inflect(text: string): string[] {
+        const match = /^(.*?)([\p{L}]+)$/u.exec(text);
+        if (!match) return [];
+        const [, prefix, word] = match;
+        const lower = word.toLowerCase();
+        // Keep acronyms such as "API" readable: "APIs" rather than "APIS".
+        const suffix = (ending: string) => word === word.toUpperCase() && word.length > 1 && ending !== 's' ? ending.toUpperCase() : ending;
+
+        const irregular: Record<string, string> = {
+            person: 'people', child: 'children', man: 'men', woman: 'women', mouse: 'mice',
+            goose: 'geese', foot: 'feet', tooth: 'teeth', criterion: 'criteria', phenomenon: 'phenomena',
+        };
+        const plurals: string[] = [];
+        if (irregular[lower]) {
+            plurals.push(word.slice(0, 1) + irregular[lower].slice(1));
+        } else if (/is$/.test(lower) && lower.length > 3) {
+            plurals.push(word.slice(0, -2) + suffix('es'));
+        } else if (/(s|x|z|ch|sh)$/.test(lower)) {
+            plurals.push(word + suffix('es'));
+        } else if (/[^aeiou]y$/.test(lower)) {
+            plurals.push(word.slice(0, -1) + suffix('ies'));
+        } else if (/fe$/.test(lower)) {
+            plurals.push(word.slice(0, -2) + suffix('ves'), word + 's');
+        } else if (/[^f]f$/.test(lower)) {
+            plurals.push(word.slice(0, -1) + suffix('ves'), word + 's');
+        } else if (/[^aeiou]o$/.test(lower)) {
+            plurals.push(word + suffix('es'), word + 's');
+        } else {
+            plurals.push(word + 's');
+        }
+
+        const forms = [
+            ...plurals,
+            `${word}'s`, `${word}’s`,
+            ...plurals.map(plural => /s$/i.test(plural) ? [`${plural}'`, `${plural}’`] : [`${plural}'s`, `${plural}’s`])
+                .reduce((all, possessives) => all.concat(possessives), []),
+        ];
+        return forms.map(form => prefix + form);
+    },
+};
+
+/**
+ * The available inflectors, by id. Other languages can be added with `TitleMatchLinker.registerInflector`.
+ */
+const INFLECTORS = new Map<string, Inflector>([[ENGLISH_INFLECTOR.id, ENGLISH_INFLECTOR]]);
+
+/**
+ * A mention that matched several notes sharing the same title or alias, reported for review.
+ */
+interface AmbiguousMatch {
+    sourcePath: string; // The note containing the mention.
+    text: string; // The title or alias that was matched.
+    targetPaths: string[]; // Every note the mention could link to.
+    chosenPath: string | null; // The note that was linked, or null if the mention was skipped.
+}
+
+/**
+ * A range of characters in a piece of text, from `start` (inclusive) to `end` (exclusive).
+ */
+interface TextRange {
+    start: number;
+    end: number;
+}
+
+/**
+ * The headings and existing links of a note, as found while scanning its content.
+ */
+interface NoteStructure {
+    headingOffsets: number[]; // The offset of each heading, in order.
+    links: { offset: number, link: string }[]; // The internal wikilinks and Markdown links, with their link text.
+}
+
+/**
+ * A region of a three-way merge that was changed differently on both sides, and cannot be merged automatically.
+ */
+interface MergeConflict {
+    lineNumber: number; // The line of the current content where the region starts, 1-based.
+    baseText: string; // The region as the plugin wrote it.
+    currentText: string; // The region as it is now in the note.
+    revertedText: string; // The region as it is in the backup.
+}
+
+/**
+ * Inline Markdown constructs that must never receive links, searched for within each line of prose.
+ */
+const INLINE_PROTECTED_PATTERNS: RegExp[] = [
+    /(`+)[^\n]*?\1/g, // Inline code, with any number of backticks.
+    /\$(?!\s)[^$\n]*?(?<!\s)\$/g, // Inline math.
+    /!?\[\[[^\]\n]*\]\]/g, // Wikilinks and embeds.
+    /!?\[[^\]\n]*\]\([^)\n]*\)/g, // Markdown links and images.
+    /!?\[[^\]\n]*\]\[[^\]\n]*\]/g, // Reference-style links.
+    /\b[a-z][a-z0-9+.-]*:\/\/[^\s<>]+/gi, // URLs.
+    /<\/?[A-Za-z][^>\n]*>/g, // HTML tags and autolinks.
+    /(?<=^|\s)#[\p{L}\p{N}_/-]+/gu, // Tags.
+    /\[\^[^\]\n]+\]/g, // Footnote references.
+    /(?<=\s)\^[A-Za-z0-9-]+$/g, // Block ids.
+];
+
+/**
+ * A candidate found in a piece of text, identified by its character offsets within that text.
+ */
+interface LinkMatch {
+    start: number; // Offset of the first matched character.
+    end: number; // Offset just past the last matched character.
+    text: string; // The matched text exactly as it appears in the line.
+    candidate: LinkCandidate; // The candidate that produced the match.
+}
+
+/**
+ * A link proposed for a note: the text it replaces in the original content, and the link written in its place.
+ */
+interface LinkInsertion {
+    start: number; // Offset of the replaced text in the original content.
+    end: number; // Offset just past the replaced text in the original content.
+    originalText: string; // The replaced text, exactly as it appears in the note.
+    linkText: string; // The link that replaces it.
+    targetPath: string; // The path of the note the link points to.
+}
+
+/**
+ * The links proposed for one note during a run, before they are written.
+ */
+interface ProposedChange {
+    file: TFile;
+    originalContent: string; // The content the insertion offsets refer to.
+    insertions: LinkInsertion[]; // Sorted by offset, never overlapping.
+}
+
+/**
+ * A link written during a run, as recorded in the run manifest.
+ */
+interface ManifestLinkRecord {
+    offset: number; // Offset of the replaced text in the content before the run.
+    linkedOffset: number; // Offset of the link in the content written by the run.
+    originalText: string; // The replaced text.
+    linkText: string; // The link written in its place.
+    targetPath: string; // The path of the note the link points to, at the time of the run.
+}
+
+/**
+ * A note modified during a run, as recorded in the run manifest.
+ */
+interface ManifestFileRecord {
+    path: string; // The path of the modified note, kept current while its changes are pending.
+    backupPath: string; // The backup holding the content before the run, in the backup store or, for older runs, in the vault.
+    changeLogPath: string | null; // The per-note change log, for runs on a single note.
+    status: 'pending' | 'accepted' | 'reverted' | 'deleted';
+    links: ManifestLinkRecord[]; // Sorted by offset.
+}
+
+/**
+ * The machine-readable record of a link creation run, stored as JSON in `RUN_MANIFEST_FOLDER`.
+ * Revert, acceptance, and the review logs are driven from it.
+ */
+interface RunManifest {
+    version: number; // The format version, `RUN_MANIFEST_VERSION` when written.
+    runId: string;
+    timestamp: string; // ISO 8601.
+    scope: 'vault' | 'note'; // Whether the run processed the whole vault or a single note.
+    settings: TitleMatchLinkerSettings; // A snapshot of the settings used for the run.
+    files: ManifestFileRecord[];
+}
+
+const RUN_MANIFEST_FOLDER = '_tmldata/runs';
+const LINK_DIFF_VIEW_TYPE = 'title-match-linker-diff';
+const RUN_MANIFEST_VERSION = 1;
+
+/**
+ * A backup of a note, as recorded in the backup index.
+ */
+interface BackupEntry {
+    id: string; // Stable id, also the name of the backup file.
+    path: string; // The path of the note, kept current when the note is renamed or moved.
+    backupPath: string; // The path of the backup file, relative to the vault root.
+    runId: string; // The session that made the backup.
+    created: string; // ISO 8601.
+    deleted?: boolean; // Whether the note was deleted. The backup is kept until its session is accepted.
+}
+
+const BACKUP_INDEX_FILE = 'index.json';
+const BACKUP_INDEX_VERSION = 1;
+
 /**
  * The TitleMatchLinker plugin automatically creates links in notes based on title matches within the Obsidian vault.
  */
 export default class TitleMatchLinker extends Plugin {
     settings: TitleMatchLinkerSettings;
+    exclusionRules: ExclusionRules; // Compiled from `settings.excludedFolders` whenever the settings are loaded or saved.
+    sourceScopeRules: ScopeRules; // Compiled from `settings.sourceScope`, like the exclusion rules.
+    targetScopeRules: ScopeRules; // Compiled from `settings.targetScope`, like the exclusion rules.
+    glossaryCandidates: LinkCandidate[] = []; // Read from the glossary file by `loadGlossary` at the start of each run.
+    manifests: RunManifest[] = []; // Every run manifest, oldest first, kept in sync with the files by `saveManifest`.
+    backupStore: BackupStore; // The backups of the notes with pending changes, in the vault and in the plugin's folder.
     
     /**
      * Plugin loading lifecycle method. Called when the plugin is loaded by Obsidian.
@@ -30,6 +322,13 @@ export default class TitleMatchLinker extends Plugin {
     async onload() {
         try {
             await this.loadSettings();
+            await this.loadManifests();
+            this.backupStore = new BackupStore(this.app.vault.adapter, ['_tmlbackups', this.getPluginBackupFolder()]);
+            await this.backupStore.load();
+
+            // Keeps the backups and the pending changes attached to their notes when notes are renamed, moved, or deleted.
+            this.registerEvent(this.app.vault.on('rename', (file, oldPath) => this.handleNoteRename(file, oldPath)));
+            this.registerEvent(this.app.vault.on('delete', (file) => this.handleNoteDelete(file)));
 
             // Adds an icon to the ribbon area that opens the ActionModal when clicked.
             this.addRibbonIcon('links-coming-in', 'Title Match Linker Options', () => {
@@ -39,6 +338,9 @@ export default class TitleMatchLinker extends Plugin {
             // Adds a settings tab for the plugin in the Obsidian settings view.
             this.addSettingTab(new SettingTab(this.app, this));
 
+            // Registers the view comparing linked notes with their backups.
+            this.registerView(LINK_DIFF_VIEW_TYPE, (leaf) => new LinkDiffView(leaf, this));
+
             // Initializes commands for user interaction.
             this.initializeCommands();
         } catch (error) {
@@ -60,7 +362,7 @@ export default class TitleMatchLinker extends Plugin {
                 if (canProceed) {
                     this.startLinkCreationProcess();
                 } else {
-                    new Notice('Cannot start the link creation process. Check for pending changes.');
+                    new Notice("Link creation cancelled: no folders are excluded besides the plugin's own. Add folders to the exclusion list in the settings, or confirm to proceed.");
                 }
             }
         });
@@ -76,28 +378,28 @@ export default class TitleMatchLinker extends Plugin {
             // Ensure the menu items are added only for Markdown files.
             if (!(file instanceof TFile) || file.extension !== 'md') return;
 
-            // Common logic to check for the existence of a backup file for this note.
+            // Common logic to check for pending changes to this note, recorded in a run manifest or, for
+            // backups made before run manifests existed, in a backup file named after the note.
+            const pendingRecord = this.findPendingRecord(file.path);
             const flattenedBackupFileName = file.path.replace(/\//g, '__') + '.bak';
-            const backupPath = `_tmlbackups/${flattenedBackupFileName}`;
-            const backupFile = this.app.vault.getAbstractFileByPath(backupPath);
-            const backupFileExists = backupFile instanceof TFile;
-
-            // Add "Run Title Match Link" option.
-            if (!backupFileExists) {
-                menu.addItem((item) => {
-                    item.setTitle('Run Title Match Link')
-                        .setIcon('link')
-                        .onClick(async () => {
-                            try {
-                                await this.linkSingleNote(file);
-                                new Notice(`Title match linking process initiated for "${file.name}".`);
-                            } catch (error) {
-                                console.error(`Error running title match link on "${file.name}":`, error);
-                                new Notice(`Error running title match link on "${file.name}". Check console for details.`);
-                            }
-                        });
-                });
-            }
+            const backupPath = pendingRecord?.record.backupPath ?? `_tmlbackups/${flattenedBackupFileName}`;
+            const changeLogPath = pendingRecord ? pendingRecord.record.changeLogPath ?? '' : `_tmldata/${flattenedBackupFileName.replace('.bak', '.md')}`;
+            const backupFileExists = this.hasBackup(backupPath);
+
+            // Add "Run Title Match Link" option. Each run is a session of its own, so pending changes don't prevent it.
+            menu.addItem((item) => {
+                item.setTitle('Run Title Match Link')
+                    .setIcon('link')
+                    .onClick(async () => {
+                        try {
+                            await this.linkSingleNote(file);
+                            new Notice(`Title match linking process initiated for "${file.name}".`);
+                        } catch (error) {
+                            console.error(`Error running title match link on "${file.name}":`, error);
+                            new Notice(`Error running title match link on "${file.name}". Check console for details.`);
+                        }
+                    });
+            });
 
             // Conditionally add "Revert Title Match Links" option if a backup file exists.
             if (backupFileExists) {
@@ -106,8 +408,9 @@ export default class TitleMatchLinker extends Plugin {
                         .setIcon('reset')
                         .onClick(async () => {
                             try {
-                                await this.revertSingleNote(file);
-                                new Notice(`Changes reverted for "${file.name}".`);
+                                if (await this.revertSingleNote(file)) {
+                                    new Notice(`Changes reverted for "${file.name}".`);
+                                }
                             } catch (error) {
                                 console.error(`Error reverting changes for "${file.name}":`, error);
                                 new Notice(`Error reverting changes for "${file.name}". Check console for details.`);
@@ -115,17 +418,23 @@ export default class TitleMatchLinker extends Plugin {
                         });
                 });
 
+                // Reverting individual links relies on the positions recorded in the run manifest.
+                if (pendingRecord) {
+                    menu.addItem((item) => {
+                        item.setTitle('Revert Individual Title Match Links')
+                            .setIcon('unlink')
+                            .onClick(() => {
+                                new LinkRevertModal(this.app, this, pendingRecord.manifest, pendingRecord.record).open();
+                            });
+                    });
+                }
+
                 menu.addItem((item) => {
                     item.setTitle('Accept Title Match Links')
                         .setIcon('checkmark')
                         .onClick(async () => {
                             try {
-                                // Construct paths for the backup and change log files using the flattened file name.
-                                const flattenedBackupFileName = file.path.replace(/\//g, '__') + '.bak';
-                                const backupPath = `_tmlbackups/${flattenedBackupFileName}`;
-                                const changeLogPath = `_tmldata/${flattenedBackupFileName.replace('.bak', '.md')}`;
-                
-                                // Call cleanupAfterReversionOrAcceptance with both paths.
+                                // Call cleanupAfterReversionOrAcceptance with the backup and change log paths found above.
                                 await this.cleanupAfterReversionOrAcceptance(backupPath, changeLogPath);
                                 
                                 new Notice(`Changes accepted for "${file.name}". Cleanup completed.`);
@@ -139,6 +448,22 @@ export default class TitleMatchLinker extends Plugin {
         });
 
 
+        // Handles the revert links of the review log: obsidian://tml-revert?run=<run id>&file=<path>&offset=<offset>,
+        // or &target=<path> instead of the offset to revert every link to one note.
+        this.registerObsidianProtocolHandler('tml-revert', async (params) => {
+            const manifest = this.manifests.find(candidate => candidate.runId === params.run);
+            const record = manifest?.files.find(candidate => candidate.path === params.file && candidate.status === 'pending');
+            if (!manifest || !record) {
+                new Notice(`No pending changes from this run were found for "${params.file}".`);
+                return;
+            }
+            if (this.findLaterSessions(manifest, record).length > 0) {
+                new Notice(`"${params.file}" was changed again by a later session. Revert or accept that session first.`);
+                return;
+            }
+            await this.revertLinks(manifest, record, link =>
+                params.target !== undefined ? link.targetPath === params.target : String(link.offset) === params.offset);
+        });
             
         // Register the plugin command.
         this.addCommand({
@@ -151,6 +476,42 @@ export default class TitleMatchLinker extends Plugin {
 
 
 
+        // Command to compare linked notes with their backups, and accept or revert them one by one.
+        this.addCommand({
+            id: 'open-link-diff-view',
+            name: 'Review Linked Notes',
+            callback: () => {
+                this.activateDiffView();
+            }
+        });
+
+        // Command to list the sessions, to revert or accept them one at a time.
+        this.addCommand({
+            id: 'open-session-history',
+            name: 'Session History',
+            callback: () => {
+                new SessionHistoryModal(this.app, this).open();
+            }
+        });
+
+        // Command to list the links a run would create, without modifying any note.
+        this.addCommand({
+            id: 'preview-link-creation',
+            name: 'Preview Link Creation',
+            callback: () => {
+                this.previewLinkCreation();
+            }
+        });
+
+        // Command to measure matching throughput without modifying any note.
+        this.addCommand({
+            id: 'benchmark-title-matching',
+            name: 'Benchmark Title Matching',
+            callback: () => {
+                this.benchmarkMatching();
+            }
+        });
+
         // Command for users to revert all changes made by the plugin.
         this.addCommand({
             id: 'revert-changes',
@@ -176,88 +537,226 @@ export default class TitleMatchLinker extends Plugin {
 
 /**
  * Initiates the process of linking notes based on title matches.
- * This function scans all markdown files within the vault, excluding specified folders,
- * to automatically create links for titles that match other note titles.
+ * This function scans the markdown files of the source scope, excluding those matched by the exclusion rules,
+ * to automatically create links for titles that match the notes of the target scope.
+ * The run is recorded as a session, with its own backup folder, manifest, and log.
  */
 async linkNotes() {
     // Ensure the backup folder exists for storing original files before modification.
-    const backupFolder = "_tmlbackups";
-    await this.ensureSpecialFolderExists(backupFolder);
+    await this.ensureBackupFolderExists();
 
-    // Retrieve all markdown files not in excluded folders.
-    const files = this.app.vault.getMarkdownFiles().filter(file => 
-        !this.settings.excludedFolders.some(folder => 
-            file.path.startsWith(folder))
-    );
+    // Retrieve the notes to modify and build the matcher for the notes that can be linked to.
+    const run = await this.prepareRun();
+    if (!run) return;
+    const { files, matcher } = run;
+
+    // Initialization of counters for UI feedback, and of the manifest recording the run.
+    let filesToModify = 0;
+    let totalLinksAddedCount = 0;
+    const manifest = this.createManifest('vault');
+
+    // Find the links to add to every note, without modifying anything yet.
+    const { proposals: allProposals, ambiguities } = await this.proposeLinks(files, matcher);
+    let proposals = allProposals;
+
+    // In review mode, only the links approved by the user are written.
+    if (this.settings.reviewBeforeWriting && proposals.length > 0) {
+        const approvedProposals = await new Promise<ProposedChange[] | null>(resolve => {
+            new LinkReviewModal(this.app, this, proposals, resolve, () => resolve(null)).open();
+        });
+        if (approvedProposals === null) {
+            new Notice("Link creation cancelled.");
+            return;
+        }
+        proposals = approvedProposals;
+    }
+
+    for (const { file, originalContent, insertions } of proposals) {
+        // Notes edited while the links were being reviewed are left alone, since the offsets no longer apply.
+        if (this.settings.reviewBeforeWriting) {
+            const currentContent = await this.app.vault.read(file).catch(readError => {
+                console.error(`Error reading ${file.path}:`, readError);
+                return null;
+            });
+            if (currentContent !== originalContent) {
+                new Notice(`Skipping ${file.name}: it was modified during the review.`);
+                continue;
+            }
+        }
+
+        const modifiedContent = this.applyInsertions(originalContent, insertions);
+        const linksAdded = insertions.length;
+        let backupPath: string;
+
+        try {
+            // Attempt to create a backup before modifying the file.
+            backupPath = await this.backupStore.create(this.getBackupFolder(), manifest.runId, file.path, originalContent);
+        } catch (backupError) {
+            console.error(`Error creating backup for ${file.path}:`, backupError);
+            new Notice(`Error creating backup for ${file.name}. Check console for details.`);
+            continue; // Skip this file if a backup cannot be created.
+        }
+
+        try {
+            // Modify the original file with added links.
+            await this.app.vault.modify(file, modifiedContent);
+            filesToModify++;
+            totalLinksAddedCount += linksAdded;
+
+            // Record the inserted links for revert and review.
+            manifest.files.push(this.createFileRecord(file.path, backupPath, null, insertions));
+        } catch (modifyError) {
+            console.error(`Error modifying ${file.path}:`, modifyError);
+            new Notice(`Error modifying ${file.name}. Check console for details.`);
+        }
+    }
+
+    // Notify the user upon completion.
+    new Notice(`Link creation process completed: ${totalLinksAddedCount} links added across ${filesToModify} notes.`);
+
+    // Save the manifest, then append the changes and ambiguous titles to a markdown file for review.
+    if (manifest.files.length > 0) {
+        await this.saveManifest(manifest);
+    }
+    if (manifest.files.length > 0 || ambiguities.length > 0) {
+        await this.appendToReviewChangesMarkdown(manifest, ambiguities);
+    }
+}
+
+/**
+ * Prepares a vault-wide run: retrieves the source notes, reloads the glossary, and builds the title matcher from the
+ * target notes. Titles that appear in an unusually large share of the notes are confirmed with the user first.
+ *
+ * @returns The source notes and the matcher, or null if there is nothing to process or the user cancelled.
+ */
+async prepareRun(): Promise<{ files: TFile[], matcher: TitleMatcher } | null> {
+    // Retrieve the notes to modify and the notes that can be linked to.
+    const files = this.getSourceFiles();
+    const targetFiles = this.getTargetFiles();
 
     // If no files are eligible for processing, notify the user and exit the function.
-    if (files.length === 0) {
+    if (files.length === 0 || targetFiles.length === 0) {
         new Notice("No files to process.");
-        return;
+        return null;
     }
 
-    // Initialization of counters for UI feedback.
-    let filesToModify = 0;
-    let totalLinksAddedCount = 0;
-    const changeDetails = []; // Collects detailed information for review.
+    // Build the title matcher once for the whole run; it is shared by every file.
+    await this.refreshGlossary();
+    let matcher = this.buildTitleMatcher(targetFiles);
+
+    // Ask for confirmation before linking titles that appear in an unusually large share of the notes.
+    if (this.settings.detectCommonTitles) {
+        const commonTitles = await this.findCommonTitles(files, matcher);
+        if (commonTitles.length > 0) {
+            const skippedTitles = await new Promise<string[] | null>(resolve => {
+                new CommonTitlesModal(this.app, this, commonTitles, files.length, resolve, () => resolve(null)).open();
+            });
+            if (skippedTitles === null) {
+                new Notice("Link creation cancelled.");
+                return null;
+            }
+            if (skippedTitles.length > 0) {
+                matcher = this.buildTitleMatcher(targetFiles, new Set(skippedTitles.map(title => title.toLowerCase())));
+            }
+        }
+    }
+
+    return { files, matcher };
+}
+
+/**
+ * Runs the whole link creation pipeline without modifying any note or creating any backup, and writes the links
+ * that would be created to a report note: every file, every link with its line number and context, and the number
+ * of links to each target. The report replaces the previous one and is opened when ready.
+ */
+async previewLinkCreation() {
+    const logFolderPath = "_tmldata";
+    const reportPath = `${logFolderPath}/LinkPreview.md`;
+    await this.ensureSpecialFolderExists(logFolderPath);
+
+    const run = await this.prepareRun();
+    if (!run) return;
+    const { proposals, ambiguities } = await this.proposeLinks(run.files, run.matcher);
+
+    // Count the links to each target, most linked first.
+    const targetCounts = new Map<string, number>();
+    proposals.forEach(proposal => proposal.insertions.forEach(insertion => {
+        targetCounts.set(insertion.targetPath, (targetCounts.get(insertion.targetPath) ?? 0) + 1);
+    }));
+    const totalLinks = proposals.reduce((count, proposal) => count + proposal.insertions.length, 0);
+
+    // Context and links are written as inline code, so that the report itself does not add links to the vault.
+    const code = (text: string) => text.includes('`') ? `\`\` ${text} \`\`` : `\`${text}\``;
+
+    let report = `# Link Preview\n\n`;
+    report += `${new Date().toLocaleString()}: ${totalLinks} links would be added to ${proposals.length} of ${run.files.length} notes. No note was modified.\n\n`;
+    report += `## Links per Target\n\n`;
+    [...targetCounts.keys()]
+        .sort((a, b) => (targetCounts.get(b) ?? 0) - (targetCounts.get(a) ?? 0) || a.localeCompare(b))
+        .forEach(targetPath => {
+            report += `- ${targetPath}: ${targetCounts.get(targetPath)}\n`;
+        });
+    report += '\n';
+    report += this.formatAmbiguities(ambiguities);
+
+    report += `## Links per Note\n\n`;
+    proposals.forEach(({ file, originalContent, insertions }) => {
+        report += `### ${file.path} (${insertions.length})\n\n`;
+        insertions.forEach(insertion => {
+            const { lineNumber, before, after } = this.describeInsertion(originalContent, insertion);
+            report += `- Line ${lineNumber}: ${code(`${before}«${insertion.originalText}»${after}`.trim())} → ${code(insertion.linkText)}\n`;
+        });
+        report += '\n';
+    });
+
+    try {
+        await this.app.vault.adapter.write(reportPath, report);
+        new Notice(`Preview complete: ${totalLinks} links in ${proposals.length} notes. See "${reportPath}".`);
+        await this.app.workspace.openLinkText(reportPath, '', false);
+    } catch (error) {
+        console.error("Failed to write the link preview:", error);
+        new Notice("An error occurred while writing the link preview. Check console for details.");
+    }
+}
+
+/**
+ * Reads every source note and finds the links to add to it, without modifying anything.
+ * Progress is shown in a modal, since reading a large vault takes a while.
+ *
+ * @param {TFile[]} files - The source notes of the run.
+ * @param {TitleMatcher} matcher - The matcher built for the run.
+ * @returns The proposed links for each note that would change, and the ambiguous mentions found.
+ */
+async proposeLinks(files: TFile[], matcher: TitleMatcher): Promise<{ proposals: ProposedChange[], ambiguities: AmbiguousMatch[] }> {
+    const proposals: ProposedChange[] = [];
+    const ambiguities: AmbiguousMatch[] = []; // Collects mentions of titles shared by several notes.
 
     // Show progress to the user via a modal dialog.
     const progressModal = new ProgressModal(this.app, files.length, 'linkCreation');
     progressModal.open();
 
     for (const file of files) {
-        try {
-            const originalContent = await this.app.vault.read(file);
-            const { content: modifiedContent, linksAdded } = this.processContent(originalContent, files, file.basename);
-
-            // If links were added, proceed with creating backups and modifying the file.
-            if (linksAdded > 0) {
-                const flattenedBackupFileName = file.path.replace(/\//g, '__') + '.bak';
-                const backupPath = `${backupFolder}/${flattenedBackupFileName}`;
-
-                try {
-                    // Attempt to create a backup before modifying the file.
-                    await this.app.vault.adapter.write(backupPath, originalContent);
-                } catch (backupError) {
-                    console.error(`Error creating backup for ${file.path}:`, backupError);
-                    new Notice(`Error creating backup for ${file.name}. Check console for details.`);
-                    continue; // Skip this file if a backup cannot be created.
-                }
-
-                try {
-                    // Modify the original file with added links.
-                    await this.app.vault.modify(file, modifiedContent);
-                    filesToModify++;
-                    totalLinksAddedCount += linksAdded;
-
-                    // Record change details for later review.
-                    changeDetails.push({
-                        filePath: file.path,
-                        modifiedContent,
-                        linksAdded,
-                        fileName: file.name
-                    });
-                } catch (modifyError) {
-                    console.error(`Error modifying ${file.path}:`, modifyError);
-                    new Notice(`Error modifying ${file.name}. Check console for details.`);
+        // Notes that opt out through their frontmatter are not modified, but can still be linked to.
+        if (!this.isLinkingDisabled(file)) {
+            try {
+                const originalContent = await this.app.vault.read(file);
+                const { insertions, ambiguities: fileAmbiguities } = this.processContent(originalContent, matcher, file);
+                ambiguities.push(...fileAmbiguities);
+                if (insertions.length > 0) {
+                    proposals.push({ file, originalContent, insertions });
                 }
+            } catch (readError) {
+                console.error(`Error reading ${file.path}:`, readError);
+                new Notice(`Error reading ${file.name}. Check console for details.`);
             }
-        } catch (readError) {
-            console.error(`Error reading ${file.path}:`, readError);
-            new Notice(`Error reading ${file.name}. Check console for details.`);
         }
         // Update the progress modal after processing each file.
         progressModal.updateProgress(file.name);
     }
 
-    // Close the progress modal and notify the user upon completion.
+    // Close the progress modal.
     progressModal.completeProcess();
-    new Notice(`Link creation process completed: ${totalLinksAddedCount} links added across ${filesToModify} notes.`);
-
-    // If changes were made, append them to a markdown file for review.
-    if (changeDetails.length > 0) {
-        await this.appendToReviewChangesMarkdown(changeDetails);
-    }
+    return { proposals, ambiguities };
 }
 
 /**
@@ -270,46 +769,88 @@ async linkNotes() {
  */
 async linkSingleNote(file: TFile) {
     // Ensure backup and logging folders exist.
-    await this.ensureSpecialFolderExists("_tmlbackups");
+    await this.ensureBackupFolderExists();
     await this.ensureSpecialFolderExists("_tmldata");
 
-    // Skip processing for files in excluded folders.
-    if (this.settings.excludedFolders.some(folder => file.path.startsWith(folder))) {
-        console.log(`Skipping "${file.name}": located in an excluded folder.`);
-        new Notice(`Skipping "${file.name}": located in an excluded folder.`);
+    // Skip processing for files matched by the exclusion rules.
+    if (this.isExcluded(file.path)) {
+        console.log(`Skipping "${file.name}": matched by an exclusion rule.`);
+        new Notice(`Skipping "${file.name}": matched by an exclusion rule.`);
+        return;
+    }
+
+    // Skip processing for files outside of the source scope.
+    if (!this.sourceScopeRules.includes(file, this.app.metadataCache.getFileCache(file))) {
+        console.log(`Skipping "${file.name}": outside of the source scope.`);
+        new Notice(`Skipping "${file.name}": outside of the source scope.`);
+        return;
+    }
+
+    // Skip processing for notes that opt out through their frontmatter.
+    if (this.isLinkingDisabled(file)) {
+        console.log(`Skipping "${file.name}": linking is disabled in its frontmatter.`);
+        new Notice(`Skipping "${file.name}": linking is disabled in its frontmatter.`);
         return;
     }
 
     // Read the original content of the file.
     const originalContent = await this.app.vault.read(file);
 
-    // Use a compact naming convention for backup files for brevity.
-    const flattenedBackupFileName = file.path.replace(/\//g, '__') + '.bak';
-    const backupPath = `_tmlbackups/${flattenedBackupFileName}`;
+    // The run is a session of its own, with its backup in the backup store.
+    const manifest = this.createManifest('note');
 
-    // Create a backup of the original content.
-    await this.app.vault.create(backupPath, originalContent).catch(error => {
+    // Create a backup of the original content. The note is left alone if the backup cannot be created.
+    let backupPath: string;
+    try {
+        backupPath = await this.backupStore.create(this.getBackupFolder(), manifest.runId, file.path, originalContent);
+    } catch (error) {
         console.error(`Failed to create backup for "${file.name}":`, error);
         new Notice(`Error creating backup for "${file.name}". Check console for details.`);
         return;
-    });
+    }
 
-    // Retrieve all markdown files, excluding the current file and those in excluded folders.
-    const allFiles = this.app.vault.getMarkdownFiles().filter(otherFile => 
-        otherFile !== file && !this.settings.excludedFolders.some(folder => otherFile.path.startsWith(folder))
-    );
+    // Retrieve the notes of the target scope, excluding the current file.
+    const allFiles = this.getTargetFiles().filter(otherFile => otherFile !== file);
 
     // Process the file for title match linking.
-    const { content: modifiedContent, linksAdded } = this.processContent(originalContent, allFiles, file.basename);
+    await this.refreshGlossary();
+    const matcher = this.buildTitleMatcher(allFiles);
+    const { content: proposedContent, insertions, ambiguities } = this.processContent(originalContent, matcher, file);
+
+    // In review mode, only the links approved by the user are written. Cancelling the review adds no links.
+    let modifiedContent = proposedContent;
+    let writtenInsertions = insertions;
+    if (this.settings.reviewBeforeWriting && insertions.length > 0) {
+        const approvedProposals = await new Promise<ProposedChange[] | null>(resolve => {
+            new LinkReviewModal(this.app, this, [{ file, originalContent, insertions }], resolve, () => resolve(null)).open();
+        });
+        writtenInsertions = approvedProposals?.[0]?.insertions ?? [];
+        modifiedContent = this.applyInsertions(originalContent, writtenInsertions);
+
+        // A note edited during the review is left alone, since the offsets no longer apply.
+        if (writtenInsertions.length > 0) {
+            const currentContent = await this.app.vault.read(file).catch(readError => {
+                console.error(`Error reading ${file.path}:`, readError);
+                return null;
+            });
+            if (currentContent !== originalContent) {
+                new Notice(`Skipping ${file.name}: it was modified during the review.`);
+                await this.deleteBackup(backupPath);
+                return;
+            }
+        }
+    }
+    const linksAdded = writtenInsertions.length;
 
     if (linksAdded > 0) {
         // Update the file with the modified content if links were added.
         await this.app.vault.modify(file, modifiedContent);
         
-        // Generate a log file with the changes made.
-        const logFileName = `SNC-Changes-${file.path.replace(/\//g, '__')}.md`;
-        const logFilePath = `_tmldata/${logFileName}`;
-        const logContent = `# Links Added to ${file.name}\n\n- ${linksAdded} links added.\n\n---\n\n${modifiedContent}`;
+        // Generate the session log with the changes made, and record the run in its manifest.
+        const logFilePath = this.getSessionLogPath(manifest.runId);
+        manifest.files.push(this.createFileRecord(file.path, backupPath, logFilePath, writtenInsertions));
+        await this.saveManifest(manifest);
+        const logContent = `# Links Added to ${file.name}\n\n- Run ${manifest.runId}: ${linksAdded} links added.\n\n${this.formatAmbiguities(ambiguities)}---\n\n${modifiedContent}`;
 
         await this.app.vault.create(logFilePath, logContent).catch(error => {
             console.error(`Failed to log changes for "${file.name}":`, error);
@@ -320,9 +861,7 @@ async linkSingleNote(file: TFile) {
         new Notice(`${linksAdded} links added to "${file.name}". Review changes in "${logFilePath}".`);
     } else {
         // If no links were added, delete the backup file and notify the user.
-        const backupFile = this.app.vault.getAbstractFileByPath(backupPath);
-        if (backupFile instanceof TFile) {
-            await this.app.vault.delete(backupFile);
+        if (await this.deleteBackup(backupPath)) {
             new Notice(`No links added to "${file.name}". Backup not needed and deleted.`);
         } else {
             console.error(`Backup file not found: ${backupPath}`);
@@ -333,64 +872,332 @@ async linkSingleNote(file: TFile) {
     
 
 /**
- * Reverts changes made to a single note by restoring its content from a backup file.
- * - Locates the backup file using a naming convention based on the note's path.
- * - Restores the note's content from the backup if found.
- * - Notifies the user about the success or failure of the reversion process.
- * - Cleans up backup and change log files, and removes empty special folders.
- * 
- * @param {TFile} file The note file to revert changes for.
+ * Finds the titles and aliases that appear in an unusually large share of the source notes, such as "Home" or "Index".
+ * A title is common when it appears in at least `commonTitleThreshold` percent of the notes, and in at least
+ * `COMMON_TITLE_MINIMUM_NOTES` notes so that small vaults are not flagged for every title.
+ *
+ * @param {TFile[]} files - The source notes of the run.
+ * @param {TitleMatcher} matcher - The matcher built for the run.
+ * @returns The common titles with the number of notes they appear in, most frequent first.
  */
-async revertSingleNote(file: TFile) {
-    // Use the flattened naming convention to locate the backup file.
-    const flattenedBackupFileName = file.path.replace(/\//g, '__') + '.bak';
-    const backupPath = `_tmlbackups/${flattenedBackupFileName}`;
-    const changeLogPath = `_tmldata/${flattenedBackupFileName.replace('.bak', '.md')}`;
+async findCommonTitles(files: TFile[], matcher: TitleMatcher): Promise<{ title: string, noteCount: number }[]> {
+    const noteCounts = new Map<string, { title: string, noteCount: number }>();
 
-    // Attempt to locate the backup file within the _tmlbackups folder.
-    const backupFile = this.app.vault.getAbstractFileByPath(backupPath);
-    if (backupFile instanceof TFile) {
+    for (const file of files) {
+        let content: string;
         try {
-            // Read the backup file's content.
-            const backupContent = await this.app.vault.read(backupFile);
-            // Restore the original file with the backup content.
-            await this.app.vault.modify(file, backupContent);
-            // Notify the user of successful reversion.
-            new Notice(`"${file.name}" has been reverted to its previous state.`);
-            
-            // Clean up after successful reversion by providing paths directly.
-            await this.cleanupAfterReversionOrAcceptance(backupPath, changeLogPath);
-        } catch (error) {
-            console.error(`Error reverting "${file.name}":`, error);
-            new Notice(`Error reverting "${file.name}". See console for details.`);
+            content = await this.app.vault.cachedRead(file);
+        } catch (readError) {
+            console.error(`Error reading ${file.path}:`, readError);
+            continue;
         }
-    } else {
-        // Notify the user if the backup file is not found.
-        new Notice(`Backup not found for "${file.name}". Reversion not possible.`);
+
+        // Count each title once per note, ignoring self-links. Inflected forms count as their title,
+        // so that skipping the title skips all its forms.
+        const titlesInNote = new Map<string, string>();
+        this.findProseRanges(content).forEach(range => {
+            matcher.findMatches(content.slice(range.start, range.end)).forEach(match => {
+                if (match.candidate.file !== file) {
+                    const title = match.candidate.inflectedFrom ?? match.candidate.text;
+                    titlesInNote.set(title.toLowerCase(), title);
+                }
+            });
+        });
+        titlesInNote.forEach((title, key) => {
+            const entry = noteCounts.get(key) ?? { title, noteCount: 0 };
+            entry.noteCount++;
+            noteCounts.set(key, entry);
+        });
     }
-}
 
+    const minimumNotes = Math.max(COMMON_TITLE_MINIMUM_NOTES, files.length * this.settings.commonTitleThreshold / 100);
+    return [...noteCounts.values()]
+        .filter(entry => entry.noteCount >= minimumNotes)
+        .sort((a, b) => b.noteCount - a.noteCount || a.title.localeCompare(b.title));
+}
 
-    
-    /**
- * Appends details of the changes made during the link creation process to a Markdown file for review.
- * This allows users to manually verify and adjust the automated changes if necessary.
- * 
- * @param {Array} changes - An array of objects detailing each change, including the file path,
- * modified content, number of links added, and the file name.
+/**
+ * Measures the throughput of the title matcher without modifying any note.
+ * Builds the matcher from all eligible notes, runs the full content processing on each of them,
+ * and reports the build time, processing time, and throughput in a notice and in the console.
  */
-async appendToReviewChangesMarkdown(changes: { filePath: string, modifiedContent: string, linksAdded: number, fileName: string }[]) {
-    const logFolderPath = "_tmldata";
-    const logFileName = "ReviewChanges.md";
-    const logFilePath = `${logFolderPath}/${logFileName}`;
-    
-    // Initialize log content with a header.
-    let logContent = "# Review Changes\n\n";
-    
-    // Append each change to the log content in Markdown format.
-    changes.forEach(change => {
-        logContent += `- ${change.filePath}: ${change.linksAdded} links added to [[${change.fileName}]].\n`;
-    });
+async benchmarkMatching() {
+    const files = this.getSourceFiles();
+    const targetFiles = this.getTargetFiles();
+
+    if (files.length === 0 || targetFiles.length === 0) {
+        new Notice("No files to process.");
+        return;
+    }
+
+    // Time the construction of the matcher separately from the matching itself.
+    await this.refreshGlossary();
+    const buildStart = performance.now();
+    const matcher = this.buildTitleMatcher(targetFiles);
+    const buildTime = performance.now() - buildStart;
+
+    // Read every file up front so that disk access is not part of the measurement.
+    const contents: { file: TFile, content: string }[] = [];
+    for (const file of files) {
+        try {
+            contents.push({ file, content: await this.app.vault.cachedRead(file) });
+        } catch (readError) {
+            console.error(`Error reading ${file.path}:`, readError);
+        }
+    }
+
+    let totalCharacters = 0;
+    let totalLinks = 0;
+    const matchStart = performance.now();
+    contents.forEach(({ file, content }) => {
+        totalCharacters += content.length;
+        totalLinks += this.processContent(content, matcher, file).linksAdded;
+    });
+    const matchTime = performance.now() - matchStart;
+
+    const seconds = Math.max(matchTime, 1) / 1000;
+    const summary = `Matcher built from ${matcher.candidates.length} titles and aliases in ${buildTime.toFixed(0)} ms. ` +
+        `Processed ${contents.length} notes (${(totalCharacters / 1e6).toFixed(2)} M characters) in ${matchTime.toFixed(0)} ms: ` +
+        `${(contents.length / seconds).toFixed(0)} notes/s, ${(totalCharacters / 1e6 / seconds).toFixed(2)} M characters/s, ${totalLinks} links found.`;
+    console.log(`[TitleMatchLinker] Benchmark: ${summary}`);
+    new Notice(`Benchmark completed. ${summary}`, 15000);
+}
+
+/**
+ * Opens the view comparing linked notes with their backups, or brings it to the front if it is already open.
+ */
+async activateDiffView() {
+    let leaf = this.app.workspace.getLeavesOfType(LINK_DIFF_VIEW_TYPE)[0];
+    if (!leaf) {
+        leaf = this.app.workspace.getLeaf(true);
+        await leaf.setViewState({ type: LINK_DIFF_VIEW_TYPE, active: true });
+    }
+    this.app.workspace.revealLeaf(leaf);
+    if (leaf.view instanceof LinkDiffView) {
+        await leaf.view.refresh();
+    }
+}
+
+/**
+ * Reverts some of the links written to a note by a run, leaving the rest of the note untouched.
+ * Each link is located with `locateLinks`, so that edits made since the run are followed. Links that cannot be
+ * located, because they were edited or removed, are reported and kept in the manifest; another occurrence of the
+ * same link text is never reverted in their place.
+ * When no link remains, the note is marked as reverted and its backup and change log are cleaned up.
+ *
+ * @param {RunManifest} manifest - The manifest of the run that wrote the links.
+ * @param {ManifestFileRecord} record - The pending record of the note.
+ * @param {(link: ManifestLinkRecord) => boolean} shouldRevert - Selects the links to revert.
+ * @returns The number of links reverted.
+ */
+async revertLinks(manifest: RunManifest, record: ManifestFileRecord, shouldRevert: (link: ManifestLinkRecord) => boolean): Promise<number> {
+    const file = this.app.vault.getAbstractFileByPath(record.path);
+    if (!(file instanceof TFile)) {
+        new Notice(`"${record.path}" no longer exists. Reversion not possible.`);
+        return 0;
+    }
+
+    let content = await this.app.vault.read(file);
+    const positions = await this.locateLinks(record, content);
+    let shift = 0; // How much the content has shrunk so far, before the current link.
+    let revertedCount = 0;
+    const remainingLinks: ManifestLinkRecord[] = [];
+    const missingLinks: ManifestLinkRecord[] = [];
+
+    record.links.forEach((link, index) => {
+        const located = positions[index];
+        if (!shouldRevert(link) || located === null) {
+            if (shouldRevert(link)) missingLinks.push(link);
+            remainingLinks.push(located === null ? link : { ...link, linkedOffset: located + shift });
+            return;
+        }
+
+        const position = located + shift;
+        content = content.slice(0, position) + link.originalText + content.slice(position + link.linkText.length);
+        shift += link.originalText.length - link.linkText.length;
+        revertedCount++;
+    });
+
+    if (revertedCount > 0) {
+        await this.app.vault.modify(file, content);
+        record.links = remainingLinks;
+        if (remainingLinks.length === 0) {
+            record.status = 'reverted';
+            await this.saveManifest(manifest);
+            await this.cleanupAfterReversionOrAcceptance(record.backupPath, record.changeLogPath ?? '');
+        } else {
+            await this.saveManifest(manifest);
+        }
+    }
+
+    if (missingLinks.length > 0) {
+        console.error(`Links not found in "${record.path}":`, missingLinks);
+        new Notice(`${missingLinks.length} links could not be found in "${file.name}" and were left in place.`);
+    }
+    new Notice(`${revertedCount} links reverted in "${file.name}".`);
+    return revertedCount;
+}
+
+/**
+ * Locates the links of a record in the current content of the note. The content the run wrote is rebuilt from the
+ * backup and the links, then diffed with the current content: a link is located if no edit touched it, at its
+ * position shifted by the edits before it. Without a backup, a link is only located at its recorded position.
+ *
+ * @param {ManifestFileRecord} record - The pending record of the note.
+ * @param {string} content - The current content of the note.
+ * @returns The offset of each link in the content, in the order of `record.links`, or null if it was not found.
+ */
+async locateLinks(record: ManifestFileRecord, content: string): Promise<(number | null)[]> {
+    const atRecordedOffsets = () => record.links.map(link => content.startsWith(link.linkText, link.linkedOffset) ? link.linkedOffset : null);
+    if (!this.hasBackup(record.backupPath)) return atRecordedOffsets();
+
+    let backupContent: string;
+    try {
+        backupContent = await this.readBackup(record.backupPath);
+    } catch (error) {
+        console.error(`Error reading the backup of "${record.path}":`, error);
+        return atRecordedOffsets();
+    }
+
+    // Offsets of the links in the content the run wrote, with the links still in the record.
+    let shift = 0;
+    const linkedOffsets = record.links.map(link => {
+        const linkedOffset = link.offset + shift;
+        shift += link.linkText.length - link.originalText.length;
+        return linkedOffset;
+    });
+    const linkedContent = this.applyInsertions(backupContent, record.links.map(link => ({
+        start: link.offset,
+        end: link.offset + link.originalText.length,
+        originalText: link.originalText,
+        linkText: link.linkText,
+        targetPath: link.targetPath,
+    })));
+    if (linkedContent === content) return linkedOffsets;
+
+    const linkedTokens = TextDiff.tokenize(linkedContent);
+    const hunks = TextDiff.diff(linkedTokens, TextDiff.tokenize(content));
+    return record.links.map((link, index) => {
+        const position = hunks && TextDiff.mapRange(linkedTokens, hunks, linkedOffsets[index], linkedOffsets[index] + link.linkText.length);
+        return position !== null && content.startsWith(link.linkText, position) ? position : null;
+    });
+}
+
+/**
+ * Reverts changes made to a single note by restoring its content from a backup file.
+ * - Locates the backup file through the latest run manifest with pending changes to the note, or, for backups
+ *   made before run manifests existed, using a naming convention based on the note's path.
+ * - Removes the plugin's links while keeping later edits (see `mergeRevert`). If an edit conflicts with a link,
+ *   nothing is written and the conflicts are shown instead, unless `force` is set. Backups without a manifest
+ *   cannot be merged and are restored as they are.
+ * - Marks the note as reverted in the manifest.
+ * - Notifies the user about the success or failure of the reversion process.
+ * - Cleans up backup and change log files, and removes empty special folders.
+ * 
+ * @param {TFile} file The note file to revert changes for.
+ * @param {boolean} force Whether to restore the backup as it is, discarding any edit made since the run.
+ * @returns True if the note was reverted.
+ */
+async revertSingleNote(file: TFile, force = false): Promise<boolean> {
+    const pendingRecord = this.findPendingRecord(file.path);
+    const flattenedBackupFileName = file.path.replace(/\//g, '__') + '.bak';
+    const backupPath = pendingRecord?.record.backupPath ?? `_tmlbackups/${flattenedBackupFileName}`;
+    const changeLogPath = pendingRecord ? pendingRecord.record.changeLogPath ?? '' : `_tmldata/${flattenedBackupFileName.replace('.bak', '.md')}`;
+
+    // Attempt to locate the backup file in the backup store, or within the _tmlbackups folder.
+    if (this.hasBackup(backupPath)) {
+        try {
+            // Read the backup file's content, and merge it with the current content.
+            const backupContent = await this.readBackup(backupPath);
+            let revertedContent = backupContent;
+            if (pendingRecord && !force) {
+                const { content, conflicts } = this.mergeRevert(backupContent, await this.app.vault.read(file), pendingRecord.record);
+                if (content === null) {
+                    new Notice(`"${file.name}" was edited where links were added. Nothing was reverted.`);
+                    new RevertConflictModal(this.app, this, [{ file, conflicts }]).open();
+                    return false;
+                }
+                revertedContent = content;
+            }
+            // Restore the original file with the reverted content.
+            await this.app.vault.modify(file, revertedContent);
+            if (pendingRecord) {
+                pendingRecord.record.status = 'reverted';
+                await this.saveManifest(pendingRecord.manifest);
+            }
+            // Notify the user of successful reversion.
+            new Notice(`"${file.name}" has been reverted to its previous state.`);
+            
+            // Clean up after successful reversion by providing paths directly.
+            await this.cleanupAfterReversionOrAcceptance(backupPath, changeLogPath);
+            return true;
+        } catch (error) {
+            console.error(`Error reverting "${file.name}":`, error);
+            new Notice(`Error reverting "${file.name}". See console for details.`);
+        }
+    } else {
+        // Notify the user if the backup file is not found.
+        new Notice(`Backup not found for "${file.name}". Reversion not possible.`);
+    }
+    return false;
+}
+
+/**
+ * Computes the reverted content of a note with a three-way merge: the content the plugin wrote (the backup with the
+ * recorded links) is the common base, the current content holds the user's later edits, and the backup holds
+ * the plugin's reversion. Edits made on only one side are kept; regions changed on both sides are conflicts.
+ *
+ * @param {string} backupContent - The content before the run.
+ * @param {string} currentContent - The content of the note now.
+ * @param {ManifestFileRecord} record - The links the run wrote and that have not been reverted yet.
+ * @returns The reverted content, or null with the conflicts if the merge is not clean.
+ */
+mergeRevert(backupContent: string, currentContent: string, record: ManifestFileRecord): { content: string | null, conflicts: MergeConflict[] } {
+    const linkedContent = this.applyInsertions(backupContent, record.links.map(link => ({
+        start: link.offset,
+        end: link.offset + link.originalText.length,
+        originalText: link.originalText,
+        linkText: link.linkText,
+        targetPath: link.targetPath,
+    })));
+
+    // Without later edits, the backup is the answer.
+    if (currentContent === linkedContent) {
+        return { content: backupContent, conflicts: [] };
+    }
+    return TextDiff.merge(linkedContent, currentContent, backupContent);
+}
+
+
+    
+    /**
+ * Appends details of the changes made during the link creation process to a Markdown file for review.
+ * This allows users to manually verify and adjust the automated changes if necessary.
+ * The same details are written to the session's own log.
+ * 
+ * @param {RunManifest} manifest - The manifest of the run, listing each modified note and its links.
+ * @param {AmbiguousMatch[]} ambiguities - Mentions of titles shared by several notes, listed in their own section.
+ */
+async appendToReviewChangesMarkdown(manifest: RunManifest, ambiguities: AmbiguousMatch[] = []) {
+    const logFolderPath = "_tmldata";
+    const logFileName = "ReviewChanges.md";
+    const logFilePath = `${logFolderPath}/${logFileName}`;
+    
+    // Initialize log content with a header naming the run.
+    let logContent = `# Review Changes\n\nRun ${manifest.runId}, ${new Date(manifest.timestamp).toLocaleString()}.\n\n`;
+    
+    // Append each change to the log content in Markdown format, with a revert link for each inserted link
+    // and for each target. Inserted links are shown as code so that the log does not link to the targets itself.
+    const revertUrl = (record: ManifestFileRecord, param: string) =>
+        `obsidian://tml-revert?vault=${encodeURIComponent(this.app.vault.getName())}&run=${encodeURIComponent(manifest.runId)}&file=${encodeURIComponent(record.path)}&${param}`;
+    manifest.files.forEach(record => {
+        logContent += `- ${record.path}: ${record.links.length} links added to [[${record.path.split('/').pop()}]].\n`;
+        record.links.forEach(link => {
+            logContent += `    - \`${link.linkText}\` ([revert](${revertUrl(record, `offset=${link.offset}`)}), [revert all to ${link.targetPath}](${revertUrl(record, `target=${encodeURIComponent(link.targetPath)}`)}))\n`;
+        });
+    });
+    logContent += manifest.files.length > 0 && ambiguities.length > 0 ? '\n' : '';
+    logContent += this.formatAmbiguities(ambiguities);
     
     // Ensure the log folder exists.
     await this.ensureSpecialFolderExists(logFolderPath);
@@ -405,7 +1212,10 @@ async appendToReviewChangesMarkdown(changes: { filePath: string, modifiedContent
             console.log("ReviewChanges.md does not exist, creating a new one.");
         }
         
-        // Write or append the new log content to the ReviewChanges.md file.
+        // Write the session log, then write or append the new log content to the ReviewChanges.md file.
+        if (manifest.files.length > 0) {
+            await this.app.vault.adapter.write(this.getSessionLogPath(manifest.runId), logContent);
+        }
         await this.app.vault.adapter.write(logFilePath, existingContent + logContent);
         
         // Notify the user that the review changes have been recorded.
@@ -418,7 +1228,365 @@ async appendToReviewChangesMarkdown(changes: { filePath: string, modifiedContent
 }
 
 /**
- * Checks if there are any backup files (with a .bak extension) in the _tmlbackups folder.
+ * Formats mentions of titles shared by several notes as a Markdown section for the review logs.
+ *
+ * @param {AmbiguousMatch[]} ambiguities - The ambiguous mentions to list.
+ * @returns The Markdown section, or an empty string if there are no ambiguous mentions.
+ */
+formatAmbiguities(ambiguities: AmbiguousMatch[]): string {
+    if (ambiguities.length === 0) return '';
+
+    let section = "## Ambiguous Titles\n\n";
+    ambiguities.forEach(ambiguity => {
+        const outcome = ambiguity.chosenPath ? `linked to ${ambiguity.chosenPath}` : 'skipped';
+        section += `- ${ambiguity.sourcePath}: "${ambiguity.text}" matches ${ambiguity.targetPaths.join(', ')}; ${outcome}.\n`;
+    });
+    return section + '\n';
+}
+
+/**
+ * Creates an empty manifest for a new run, with a unique run id and a snapshot of the current settings.
+ *
+ * @param {'vault' | 'note'} scope - Whether the run processes the whole vault or a single note.
+ * @returns The new manifest. It is not saved until `saveManifest` is called.
+ */
+createManifest(scope: 'vault' | 'note'): RunManifest {
+    const now = new Date();
+    // Run ids sort chronologically, like "2024-03-01T09-30-00-000Z-k3f9".
+    const runId = `${now.toISOString().replace(/[:.]/g, '-')}-${Math.random().toString(36).slice(2, 6)}`;
+    return {
+        version: RUN_MANIFEST_VERSION,
+        runId,
+        timestamp: now.toISOString(),
+        scope,
+        settings: JSON.parse(JSON.stringify(this.settings)),
+        files: [],
+    };
+}
+
+/**
+ * Records the links written to a note, with their offsets both before and after the run.
+ *
+ * @param {string} path - The path of the modified note.
+ * @param {string} backupPath - The backup holding the content before the run.
+ * @param {string | null} changeLogPath - The per-note change log, if any.
+ * @param {LinkInsertion[]} insertions - The links written, sorted by offset.
+ * @returns The file record, marked as pending.
+ */
+createFileRecord(path: string, backupPath: string, changeLogPath: string | null, insertions: LinkInsertion[]): ManifestFileRecord {
+    let shift = 0; // How much longer the linked content is than the original, up to the current link.
+    const links = insertions.map(insertion => {
+        const link: ManifestLinkRecord = {
+            offset: insertion.start,
+            linkedOffset: insertion.start + shift,
+            originalText: insertion.originalText,
+            linkText: insertion.linkText,
+            targetPath: insertion.targetPath,
+        };
+        shift += insertion.linkText.length - (insertion.end - insertion.start);
+        return link;
+    });
+    return { path, backupPath, changeLogPath, status: 'pending', links };
+}
+
+/**
+ * Writes a run manifest to `RUN_MANIFEST_FOLDER/<runId>.json`, and adds it to the loaded manifests if it is new.
+ *
+ * @param {RunManifest} manifest - The manifest to write.
+ */
+async saveManifest(manifest: RunManifest) {
+    try {
+        await this.ensureSpecialFolderExists("_tmldata");
+        if (!(await this.app.vault.adapter.exists(RUN_MANIFEST_FOLDER))) {
+            await this.app.vault.adapter.mkdir(RUN_MANIFEST_FOLDER);
+        }
+        await this.app.vault.adapter.write(`${RUN_MANIFEST_FOLDER}/${manifest.runId}.json`, JSON.stringify(manifest, null, 2));
+        if (!this.manifests.includes(manifest)) {
+            this.manifests.push(manifest);
+        }
+    } catch (error) {
+        console.error(`Failed to save the manifest of run ${manifest.runId}:`, error);
+        new Notice("An error occurred while saving the run manifest. Check console for details.");
+    }
+}
+
+/**
+ * Reads every run manifest from `RUN_MANIFEST_FOLDER`, oldest first. Unreadable manifests are skipped and logged.
+ */
+async loadManifests() {
+    this.manifests = [];
+    if (!(await this.app.vault.adapter.exists(RUN_MANIFEST_FOLDER))) return;
+
+    const { files } = await this.app.vault.adapter.list(RUN_MANIFEST_FOLDER);
+    for (const path of files.filter(path => path.endsWith('.json')).sort()) {
+        try {
+            this.manifests.push(JSON.parse(await this.app.vault.adapter.read(path)));
+        } catch (error) {
+            console.error(`[TitleMatchLinker] Skipping unreadable run manifest ${path}:`, error);
+        }
+    }
+}
+
+/**
+ * Lists the notes whose changes have been neither accepted nor reverted, newest run first.
+ *
+ * @returns The pending file records, each with the manifest it belongs to.
+ */
+getPendingRecords(): { manifest: RunManifest, record: ManifestFileRecord }[] {
+    const pendingRecords: { manifest: RunManifest, record: ManifestFileRecord }[] = [];
+    [...this.manifests].reverse().forEach(manifest => {
+        manifest.files.forEach(record => {
+            if (record.status === 'pending') pendingRecords.push({ manifest, record });
+        });
+    });
+    return pendingRecords;
+}
+
+/**
+ * Finds the latest pending changes to a note.
+ *
+ * @param {string} path - The path of the note.
+ * @returns The pending file record with its manifest, or null if the note has no pending changes.
+ */
+findPendingRecord(path: string): { manifest: RunManifest, record: ManifestFileRecord } | null {
+    return this.getPendingRecords().find(({ record }) => record.path === path) ?? null;
+}
+
+/**
+ * Returns the path of a session's log, next to its manifest.
+ *
+ * @param {string} runId - The run id of the session.
+ * @returns The path of the log.
+ */
+getSessionLogPath(runId: string): string {
+    return `${RUN_MANIFEST_FOLDER}/${runId}.md`;
+}
+
+/**
+ * Returns the backup folder in the plugin's folder of the config directory. Backups stored there are neither synced
+ * with the vault nor found by search.
+ *
+ * @returns The path of the folder, relative to the vault root.
+ */
+getPluginBackupFolder(): string {
+    return `${this.manifest.dir ?? `${this.app.vault.configDir}/plugins/${this.manifest.id}`}/backups`;
+}
+
+/**
+ * Returns the folder where new backups are stored, according to the backup location setting.
+ *
+ * @returns The path of the folder, relative to the vault root.
+ */
+getBackupFolder(): string {
+    return this.settings.backupLocation === 'plugin' ? this.getPluginBackupFolder() : '_tmlbackups';
+}
+
+/**
+ * Ensures the _tmlbackups folder exists and is excluded when backups are stored in the vault.
+ */
+async ensureBackupFolderExists() {
+    if (this.settings.backupLocation === 'vault') {
+        await this.ensureSpecialFolderExists("_tmlbackups");
+    }
+}
+
+/**
+ * Checks whether a backup exists, in the backup store or, for backups made before it existed, in the vault.
+ *
+ * @param {string} backupPath - The path of the backup.
+ * @returns True if the backup exists.
+ */
+hasBackup(backupPath: string): boolean {
+    return this.backupStore.has(backupPath) || this.app.vault.getAbstractFileByPath(backupPath) instanceof TFile;
+}
+
+/**
+ * Reads a backup, from the backup store or, for backups made before it existed, from the vault.
+ *
+ * @param {string} backupPath - The path of the backup.
+ * @returns The content of the note before the run.
+ * @throws {Error} If the backup does not exist.
+ */
+async readBackup(backupPath: string): Promise<string> {
+    if (this.backupStore.has(backupPath)) {
+        return this.backupStore.read(backupPath);
+    }
+    const backupFile = this.app.vault.getAbstractFileByPath(backupPath);
+    if (!(backupFile instanceof TFile)) {
+        throw new Error(`Backup not found: ${backupPath}`);
+    }
+    return this.app.vault.read(backupFile);
+}
+
+/**
+ * Deletes a backup, from the backup store or, for backups made before it existed, from the vault.
+ *
+ * @param {string} backupPath - The path of the backup.
+ * @returns True if the backup existed and was deleted.
+ */
+async deleteBackup(backupPath: string): Promise<boolean> {
+    if (this.backupStore.has(backupPath)) {
+        await this.backupStore.remove(backupPath);
+        return true;
+    }
+    const backupFile = this.app.vault.getAbstractFileByPath(backupPath);
+    if (!(backupFile instanceof TFile)) return false;
+    await this.app.vault.delete(backupFile);
+    return true;
+}
+
+/**
+ * Follows a renamed or moved note, or folder of notes, in the backup index and in the pending changes of the run
+ * manifests, so that its changes can still be reverted or accepted.
+ *
+ * @param {TAbstractFile} file - The renamed file or folder, at its new path.
+ * @param {string} oldPath - The path before the rename.
+ */
+async handleNoteRename(file: TAbstractFile, oldPath: string) {
+    const renamePath = (path: string) => path === oldPath ? file.path
+        : path.startsWith(oldPath + '/') ? file.path + path.slice(oldPath.length) : null;
+
+    try {
+        await this.backupStore.renameNotes(renamePath);
+        for (const manifest of this.manifests) {
+            let changed = false;
+            manifest.files.filter(record => record.status === 'pending').forEach(record => {
+                const newPath = renamePath(record.path);
+                if (newPath !== null) {
+                    record.path = newPath;
+                    changed = true;
+                }
+            });
+            if (changed) await this.saveManifest(manifest);
+        }
+    } catch (error) {
+        console.error(`[TitleMatchLinker] Error following the rename of ${oldPath} to ${file.path}:`, error);
+    }
+}
+
+/**
+ * Records the deletion of a note, or folder of notes, with pending changes: its records are marked as deleted, since
+ * there is nothing left to revert, and its backups are flagged in the index. The backups are kept, as the only copy
+ * of the content before the run, until the session is accepted.
+ *
+ * @param {TAbstractFile} file - The deleted file or folder.
+ */
+async handleNoteDelete(file: TAbstractFile) {
+    const isDeleted = (path: string) => path === file.path || path.startsWith(file.path + '/');
+
+    try {
+        await this.backupStore.markDeleted(isDeleted);
+        for (const manifest of this.manifests) {
+            const records = manifest.files.filter(record => record.status === 'pending' && isDeleted(record.path));
+            records.forEach(record => record.status = 'deleted');
+            if (records.length > 0) await this.saveManifest(manifest);
+        }
+    } catch (error) {
+        console.error(`[TitleMatchLinker] Error dropping the pending changes of ${file.path}:`, error);
+    }
+}
+
+/**
+ * Finds the later sessions with pending changes to the notes that a session still has pending changes to.
+ * Sessions that touched the same note are reverted last in, first out: the backup of a later session holds the
+ * links of the earlier one, so reverting the earlier session first would bring its links back when the later
+ * session is reverted. Accepting a session is always possible.
+ *
+ * @param {RunManifest} manifest - The session to revert.
+ * @param {ManifestFileRecord} [record] - Only consider this note of the session.
+ * @returns The later sessions that must be reverted or accepted first, oldest first.
+ */
+findLaterSessions(manifest: RunManifest, record?: ManifestFileRecord): RunManifest[] {
+    const paths = new Set((record ? [record] : manifest.files).filter(candidate => candidate.status === 'pending').map(candidate => candidate.path));
+    return this.manifests.slice(this.manifests.indexOf(manifest) + 1).filter(later =>
+        later.files.some(candidate => candidate.status === 'pending' && paths.has(candidate.path)));
+}
+
+/**
+ * Reverts one note of a session: restores its backup merged with any later edits (see `mergeRevert`), deletes the
+ * backup, and marks the note as reverted. Notes whose edits conflict with the links are left as they are.
+ *
+ * @param {RunManifest} manifest - The session that changed the note.
+ * @param {ManifestFileRecord} record - The pending record of the note.
+ * @returns The note, with the conflicts that prevented the reversion if any.
+ * @throws {Error} If the note or its backup no longer exists.
+ */
+async revertRecord(manifest: RunManifest, record: ManifestFileRecord): Promise<{ file: TFile, conflicts: MergeConflict[] }> {
+    const originalFile = this.app.vault.getAbstractFileByPath(record.path);
+    if (!(originalFile instanceof TFile)) {
+        throw new Error(`Original file not found for backup: ${record.backupPath}`);
+    }
+
+    // Merge the backup with any later edits. Notes with conflicting edits are left as they are.
+    const { content, conflicts } = this.mergeRevert(await this.readBackup(record.backupPath), await this.app.vault.read(originalFile), record);
+    if (content === null) {
+        return { file: originalFile, conflicts };
+    }
+
+    // Restore the merged content, then delete the backup and record the reversion.
+    await this.app.vault.modify(originalFile, content);
+    await this.deleteBackup(record.backupPath);
+    record.status = 'reverted';
+    await this.saveManifest(manifest);
+    return { file: originalFile, conflicts: [] };
+}
+
+/**
+ * Reverts every pending note of a session, unless a later session has pending changes to one of them
+ * (see `findLaterSessions`). Notes with conflicting edits are left as they are and shown once the process completes.
+ *
+ * @param {RunManifest} manifest - The session to revert.
+ * @returns True if the session was reverted, apart from conflicting notes.
+ */
+async revertSession(manifest: RunManifest): Promise<boolean> {
+    const laterSessions = this.findLaterSessions(manifest);
+    if (laterSessions.length > 0) {
+        new Notice(`Revert or accept the later sessions that changed the same notes first: ${laterSessions.map(later => later.runId).join(', ')}.`);
+        return false;
+    }
+
+    const conflictedFiles: { file: TFile, conflicts: MergeConflict[] }[] = [];
+    for (const record of manifest.files.filter(candidate => candidate.status === 'pending')) {
+        try {
+            const result = await this.revertRecord(manifest, record);
+            if (result.conflicts.length > 0) {
+                conflictedFiles.push(result);
+            }
+        } catch (error) {
+            console.error("Error reverting file from backup", error);
+            new Notice(`Error reverting file: ${record.path}. Check console for details.`);
+        }
+    }
+
+    if (conflictedFiles.length > 0) {
+        new Notice(`Session reverted. ${conflictedFiles.length} notes were edited where links were added and were left as they are.`);
+        new RevertConflictModal(this.app, this, conflictedFiles).open();
+    } else {
+        new Notice("Session reverted.");
+    }
+    return true;
+}
+
+/**
+ * Accepts every pending note of a session, deleting their backups and change logs, along with the backups kept for
+ * the notes that were deleted since the run. The session log is kept, as the session stays in the history.
+ *
+ * @param {RunManifest} manifest - The session to accept.
+ */
+async acceptSession(manifest: RunManifest) {
+    for (const record of manifest.files.filter(candidate => candidate.status === 'pending' || (candidate.status === 'deleted' && this.hasBackup(candidate.backupPath)))) {
+        try {
+            await this.cleanupAfterReversionOrAcceptance(record.backupPath, record.changeLogPath ?? '');
+        } catch (error) {
+            console.error(`Error accepting changes for "${record.path}":`, error);
+            new Notice(`Error accepting changes for "${record.path}". Check console for details.`);
+        }
+    }
+    new Notice("Session accepted.");
+}
+
+/**
+ * Checks if there are any backup files (with a .bak extension) in the _tmlbackups folder or in the backup store.
  * This function is used to determine whether certain actions related to backup files,
  * such as reverting changes or accepting all changes, are applicable. It ensures that only
  * backup files created by the TitleMatchLinker plugin are considered by specifically checking
@@ -434,8 +1602,8 @@ async doBakFilesExist() {
     const backupFiles = this.app.vault.getFiles().filter(file => 
         file.path.startsWith(backupFolderPath) && file.path.endsWith('.bak'));
 
-    // Return true if there are any backup files within the folder, false otherwise
-    return backupFiles.length > 0;
+    // Return true if there are any backup files within the folder or in the backup store, false otherwise
+    return backupFiles.length > 0 || this.backupStore.entries.size > 0;
 }
 
 
@@ -443,21 +1611,12 @@ async doBakFilesExist() {
     
 
     /**
- * Determines if the link creation process can proceed based on current vault state.
- * Checks for existing backup files to prevent overwriting unreviewed changes.
- * Also checks the user's exclusion list settings.
+ * Determines if the link creation process can proceed based on the user's exclusion list settings.
+ * Pending changes don't prevent a new run: each run is a session with its own backups, reverted or accepted on its own.
  * 
  * @returns {Promise<boolean>} True if link creation can proceed, otherwise false.
  */
 async canProceedWithLinkCreation(): Promise<boolean> {
-    // Check for existing backup files.
-    const backupFolderExists = await this.app.vault.adapter.exists("_tmlbackups");
-    const backupFiles = backupFolderExists ? await this.app.vault.adapter.list("_tmlbackups") : { files: [] };
-    if (backupFiles.files.length > 0) {
-        new Notice("Please accept or revert current changes before running the process again.");
-        return false;
-    }
-
     // Check user settings for excluded folders.
     const autoExcludedFolders = ["_tmlbackups", "_tmldata"];
     const additionalExcludedFolders = this.settings.excludedFolders.filter(folder => !autoExcludedFolders.includes(folder));
@@ -510,8 +1669,18 @@ Keeping the _tmldata folder allows you to review the 'ReviewChanges.md' file, wh
             const progressModal = new ProgressModal(this.app, steps, 'acceptance');
             progressModal.open();
 
-            // Delete the _tmlbackups folder and its contents.
-            await this.deleteFolderAndContents("_tmlbackups").then(() => {
+            // Record the acceptance in the run manifests, unless they are about to be deleted with the data folder.
+            if (!alsoDeleteData) {
+                for (const manifest of this.manifests) {
+                    if (manifest.files.some(record => record.status === 'pending')) {
+                        manifest.files.forEach(record => record.status = record.status === 'pending' ? 'accepted' : record.status);
+                        await this.saveManifest(manifest);
+                    }
+                }
+            }
+
+            // Delete the backups, wherever they are stored, then the _tmlbackups folder and its contents.
+            await this.backupStore.clear().then(() => this.deleteFolderAndContents("_tmlbackups")).then(() => {
                 progressModal.updateProgress("_tmlbackups folder");
                 new Notice("_tmlbackups folder and its contents have been successfully deleted.");
             }).catch(error => {
@@ -531,6 +1700,7 @@ Keeping the _tmldata folder allows you to review the 'ReviewChanges.md' file, wh
             }
 
             // Finalize the progress modal and inform the user that the acceptance process is complete.
+            await this.loadManifests();
             progressModal.completeProcess();
             new Notice("All changes accepted. Backup and optionally data folders deleted.");
         } catch (error) {
@@ -544,7 +1714,9 @@ Keeping the _tmldata folder allows you to review the 'ReviewChanges.md' file, wh
 
 /**
  * Cleans up after the reversion or acceptance of changes for a single note.
- * This involves deleting the backup file and the change log file.
+ * This involves deleting the backup file and the change log file. A run manifest record that is still pending
+ * for the backup is marked as accepted, since reverting marks it as reverted beforehand. The log of a single-note
+ * session is kept, since the session history still lists the session.
  * If the _tmlbackups and _tmldata folders become empty as a result, they are also deleted.
  * The user is notified after each successful deletion.
  *
@@ -552,19 +1724,25 @@ Keeping the _tmldata folder allows you to review the 'ReviewChanges.md' file, wh
  * @param {string} changeLogPath - The path of the change log file to be deleted.
  */
 async cleanupAfterReversionOrAcceptance(backupPath: string, changeLogPath: string) {
-    // Attempt to delete the backup file and notify the user.
-    const backupFile = this.app.vault.getAbstractFileByPath(backupPath);
-    if (backupFile instanceof TFile) {
-        await this.app.vault.delete(backupFile)
-            .then(() => new Notice(`Backup file deleted: ${backupPath}`))
-            .catch(error => {
-                console.error(`Error deleting backup file: ${backupPath}`, error);
-                new Notice(`Error deleting backup file: ${backupPath}. Check console for details.`);
-            });
+    // Record the acceptance in the run manifest.
+    for (const manifest of this.manifests) {
+        const record = manifest.files.find(candidate => candidate.backupPath === backupPath && candidate.status === 'pending');
+        if (record) {
+            record.status = 'accepted';
+            await this.saveManifest(manifest);
+        }
     }
 
-    // Attempt to delete the change log file and notify the user.
-    const changeLogFile = this.app.vault.getAbstractFileByPath(changeLogPath);
+    // Attempt to delete the backup file and notify the user.
+    await this.deleteBackup(backupPath)
+        .then(deleted => deleted && new Notice(`Backup file deleted: ${backupPath}`))
+        .catch(error => {
+            console.error(`Error deleting backup file: ${backupPath}`, error);
+            new Notice(`Error deleting backup file: ${backupPath}. Check console for details.`);
+        });
+
+    // Attempt to delete the change log file and notify the user. Session logs stay with their manifest.
+    const changeLogFile = changeLogPath.startsWith(`${RUN_MANIFEST_FOLDER}/`) ? null : this.app.vault.getAbstractFileByPath(changeLogPath);
     if (changeLogFile instanceof TFile) {
         await this.app.vault.delete(changeLogFile)
             .then(() => new Notice(`Change log file deleted: ${changeLogPath}`))
@@ -575,22 +1753,33 @@ async cleanupAfterReversionOrAcceptance(backupPath: string, changeLogPath: strin
     }
 
     // Check if the _tmlbackups and _tmldata folders are empty and delete them if they are.
-    // This is done by checking if there are no files or folders within them.
-    await Promise.all(['_tmlbackups', '_tmldata'].map(async (folderName) => {
-        const folder = this.app.vault.getAbstractFileByPath(folderName);
-        if (folder instanceof TFolder) {
-            const contents = await this.app.vault.adapter.list(folder.path);
-            if (contents.files.length === 0 && contents.folders.length === 0) {
-                // Use the folder's path with the deleteFolderAndContents function to delete the folder.
-                await this.deleteFolderAndContents(folder.path)
-                    .then(() => new Notice(`Deleted empty folder: ${folderName}`))
-                    .catch(error => {
-                        console.error(`Error deleting folder: ${folderName}`, error);
-                        new Notice(`Error deleting folder: ${folderName}. Check console for details.`);
-                    });
-            }
+    for (const folderName of ['_tmlbackups', '_tmldata']) {
+        if (await this.deleteFolderIfEmpty(folderName)) {
+            new Notice(`Deleted empty folder: ${folderName}`);
         }
-    }));
+    }
+}
+
+/**
+ * Deletes a folder if there are no files or folders within it.
+ *
+ * @param {string} folderPath - The path of the folder.
+ * @returns True if the folder was deleted.
+ */
+async deleteFolderIfEmpty(folderPath: string): Promise<boolean> {
+    const folder = this.app.vault.getAbstractFileByPath(folderPath);
+    if (!(folder instanceof TFolder)) return false;
+
+    const contents = await this.app.vault.adapter.list(folder.path);
+    if (contents.files.length > 0 || contents.folders.length > 0) return false;
+    try {
+        await this.deleteFolderAndContents(folder.path);
+        return true;
+    } catch (error) {
+        console.error(`Error deleting folder: ${folderPath}`, error);
+        new Notice(`Error deleting folder: ${folderPath}. Check console for details.`);
+        return false;
+    }
 }
 
 
@@ -624,145 +1813,829 @@ async ensureSpecialFolderExists(folderPath: string) {
 }
 
 /**
- * Sanitizes the content of a note by marking the lines contained within front matter blocks or code blocks.
- * This is used to avoid processing these lines when creating links.
- * 
- * @param {string} originalContent The original content of the note.
- * @returns An object containing the sanitized content and flags for front matter and code blocks.
+ * Finds the ranges of a note that must never receive links.
+ * Block-level constructs are detected line by line:
+ * - Front matter at the top of the note.
+ * - Fenced code blocks, opened by ``` or ~~~ and closed by a fence of the same kind that is at least as long.
+ * - Math blocks delimited by $$.
+ * - HTML blocks, up to their closing tag or the next blank line, and link reference definitions.
+ * - Headings, tables, blockquotes, and callouts of the listed types, when disabled in the settings.
+ * Within the remaining lines, inline constructs are protected: inline code, inline math, wikilinks, embeds,
+ * Markdown links and images, URLs, HTML tags, tags, footnote references, and block ids.
+ * Obsidian (%% %%) and HTML (<!-- -->) comments are protected wherever they appear, including across lines,
+ * as is everything between `%% tml-ignore-start %%` and `%% tml-ignore-end %%`.
+ * When a structure is given, the headings and existing links of the lines that are neither code, math, HTML,
+ * nor comments are recorded in it, so they match the content exactly even if the metadata cache is out of date.
+ *
+ * @param {string} content The content of the note.
+ * @param {NoteStructure} [structure] Receives the headings and existing links of the note.
+ * @returns The protected ranges as character offsets into the content, possibly overlapping and unordered.
  */
-frontMatterAndCodeBlockSanitizer(originalContent: string): { sanitizedContent: string, frontMatter: boolean[], codeBlocks: boolean[] } {
-    const lines = originalContent.split('\n');
+findProtectedRanges(content: string, structure?: NoteStructure): TextRange[] {
+    const ranges: TextRange[] = [];
+    const lines = content.split('\n');
     let inFrontMatter = lines[0].trim() === '---';
-    let inCodeBlock = false;
-    const frontMatterFlags: boolean[] = [];
-    const codeBlockFlags: boolean[] = [];
+    let openFence: string | null = null; // The fence that opened the current code block, if any.
+    let inMathBlock = false;
+    let htmlBlockEnd: RegExp | null = null; // The line that ends the current HTML block, if any.
+    let offset = 0;
+    const tableLines = this.settings.linkInTables ? [] : this.findTableLines(lines);
+    let inQuote = false; // Whether the line belongs to a blockquote or a callout.
+    let calloutType: string | null = null; // The type of the current callout, or null in a plain blockquote.
 
     lines.forEach((line, index) => {
-        if (inFrontMatter && line.trim() === '---' && index !== 0) {
-            inFrontMatter = !inFrontMatter;
-        } else if (!inFrontMatter && index === 0 && line.trim() === '---') {
-            inFrontMatter = true;
+        const trimmed = line.trim();
+        // Fences may be indented or nested in blockquotes and callouts.
+        const fenceMatch = /^\s*(?:>\s*)*(`{3,}|~{3,})/.exec(line);
+        let protectLine = true;
+
+        // Track the blockquote or callout the line belongs to.
+        const isQuoteLine = /^\s*>/.test(line);
+        if (!isQuoteLine) {
+            inQuote = false;
+            calloutType = null;
+        } else if (!inQuote) {
+            inQuote = true;
+            const calloutMatch = /^\s*>\s*\[!([^\]]+)\]/.exec(line);
+            calloutType = calloutMatch ? calloutMatch[1].trim().toLowerCase() : null;
         }
 
-        if (!inFrontMatter && line.startsWith('```')) {
-            inCodeBlock = !inCodeBlock;
+        if (inFrontMatter) {
+            if (index > 0 && (trimmed === '---' || trimmed === '...')) {
+                inFrontMatter = false;
+            }
+        } else if (openFence !== null) {
+            // A fence closes the block only if it uses the same character, is at least as long, and has no info string.
+            if (fenceMatch && fenceMatch[1][0] === openFence[0] && fenceMatch[1].length >= openFence.length &&
+                line.slice(fenceMatch[0].length).trim() === '') {
+                openFence = null;
+            }
+        } else if (inMathBlock) {
+            if (trimmed.endsWith('$$')) {
+                inMathBlock = false;
+            }
+        } else if (htmlBlockEnd !== null) {
+            if (htmlBlockEnd.test(line)) {
+                htmlBlockEnd = null;
+            }
+        } else if (fenceMatch) {
+            openFence = fenceMatch[1];
+        } else if (trimmed.startsWith('$$')) {
+            // A math block may open and close on the same line.
+            inMathBlock = trimmed.length < 4 || !trimmed.endsWith('$$');
+        } else if (/^\s*<\/?[A-Za-z][^>]*>/.test(line)) {
+            // HTML blocks are left as they are, as in CommonMark: raw text elements up to their closing tag,
+            // other elements up to the next blank line.
+            const rawTextTag = /^\s*<(script|pre|style|textarea)(?:\s|>|$)/i.exec(line);
+            const blockEnd = rawTextTag ? new RegExp(`</${rawTextTag[1]}>`, 'i') : /^\s*$/;
+            htmlBlockEnd = blockEnd.test(line) ? null : blockEnd;
+        } else if (/^\s*\[[^\]]+\]:\s/.test(line)) {
+            // Link reference definitions are left as they are.
+        } else if (this.isProtectedConstruct(line, inQuote, calloutType, tableLines[index])) {
+            // Constructs disabled in the settings are left as they are.
+            if (structure) this.collectNoteStructure(line, offset, structure);
+        } else {
+            if (structure) this.collectNoteStructure(line, offset, structure);
+            protectLine = false;
+            INLINE_PROTECTED_PATTERNS.forEach(pattern => {
+                const regex = new RegExp(pattern.source, pattern.flags);
+                let match: RegExpExecArray | null;
+                while ((match = regex.exec(line)) !== null) {
+                    ranges.push({ start: offset + match.index, end: offset + match.index + match[0].length });
+                    if (match[0].length === 0) regex.lastIndex++;
+                }
+            });
         }
 
-        frontMatterFlags.push(inFrontMatter);
-        codeBlockFlags.push(inCodeBlock);
+        if (protectLine) {
+            ranges.push({ start: offset, end: offset + line.length });
+        }
+        offset += line.length + 1;
     });
 
-    return { sanitizedContent: lines.join('\n'), frontMatter: frontMatterFlags, codeBlocks: codeBlockFlags };
+    // Ignore fences and comments can span several lines, so they are searched in the whole content.
+    // Unclosed fences and comments run to the end of the note.
+    const ignoreFenceRegex = /%%\s*tml-ignore-start\s*%%[\s\S]*?(?:%%\s*tml-ignore-end\s*%%|$(?![\s\S]))/g;
+    let ignoreFence: RegExpExecArray | null;
+    while ((ignoreFence = ignoreFenceRegex.exec(content)) !== null) {
+        ranges.push({ start: ignoreFence.index, end: ignoreFence.index + ignoreFence[0].length });
+    }
+
+    const commentRanges: TextRange[] = [];
+    const commentRegex = /%%[\s\S]*?(?:%%|$(?![\s\S]))|<!--[\s\S]*?(?:-->|$(?![\s\S]))/g;
+    let comment: RegExpExecArray | null;
+    while ((comment = commentRegex.exec(content)) !== null) {
+        commentRanges.push({ start: comment.index, end: comment.index + comment[0].length });
+    }
+    ranges.push(...commentRanges);
+
+    // Commented out headings and links are not part of the note.
+    if (structure) {
+        const isCommented = (offset: number) => commentRanges.some(range => range.start <= offset && offset < range.end);
+        structure.headingOffsets = structure.headingOffsets.filter(headingOffset => !isCommented(headingOffset));
+        structure.links = structure.links.filter(link => !isCommented(link.offset));
+    }
+
+    return ranges;
 }
 
 /**
- * Sanitizes note content by identifying lines that contain links and should not be processed for link creation.
- * This helps to prevent the creation of links within existing links.
- * 
- * @param {string} content The content to sanitize.
- * @returns An object with the original content and a flag array indicating lines with links.
+ * Records the heading and the internal links of a line in the structure of a note.
+ * Wikilinks keep their link text without the display text; Markdown links are decoded, and external ones are skipped.
+ * Embeds and links in inline code are not links, so they are skipped too.
+ *
+ * @param {string} line The line to scan.
+ * @param {number} offset The offset of the line in the content of the note.
+ * @param {NoteStructure} structure Receives the heading and links of the line.
  */
-linkSanitizer(content: string): { sanitizedContent: string, inLinkFlags: boolean[] } {
-    const lines = content.split('\n');
-    const inLinkFlags: boolean[] = new Array(lines.length).fill(false);
+collectNoteStructure(line: string, offset: number, structure: NoteStructure): void {
+    if (/^\s{0,3}#{1,6}(\s|$)/.test(line)) {
+        structure.headingOffsets.push(offset);
+    }
+
+    // Blank out inline code, keeping the offsets of the rest of the line.
+    line = line.replace(new RegExp(INLINE_PROTECTED_PATTERNS[0].source, 'g'), code => ' '.repeat(code.length));
+    const linkRegex = /(?<!!)\[\[([^\]\n|]+)(?:\|[^\]\n]*)?\]\]|(?<!!)\[[^\]\n]*\]\(([^)\n]+)\)/g;
+    let match: RegExpExecArray | null;
+    while ((match = linkRegex.exec(line)) !== null) {
+        let link = match[1];
+        if (link === undefined) {
+            // Strip the angle brackets and the title of the destination.
+            const destination = match[2].trim().replace(/\s+(?:"[^"]*"|'[^']*')$/, '').replace(/^<(.*)>$/, '$1');
+            if (/^[a-z][a-z0-9+.-]*:/i.test(destination)) continue;
+            try {
+                link = decodeURI(destination);
+            } catch {
+                link = destination;
+            }
+        }
+        structure.links.push({ offset: offset + match.index, link: link.trim() });
+    }
+}
+
+/**
+ * Retrieves the notes that may be modified: markdown files in the source scope that are not excluded, except the glossary.
+ *
+ * @returns The source notes.
+ */
+getSourceFiles(): TFile[] {
+    // The glossary note is never modified, as links would break its entries.
+    return this.app.vault.getMarkdownFiles().filter(file => file.path !== this.settings.glossaryPath.trim() &&
+        !this.isExcluded(file.path) && this.sourceScopeRules.includes(file, this.app.metadataCache.getFileCache(file)));
+}
+
+/**
+ * Retrieves the notes that may become link targets: markdown files in the target scope that are not excluded.
+ *
+ * @returns The target notes.
+ */
+getTargetFiles(): TFile[] {
+    return this.app.vault.getMarkdownFiles().filter(file => this.isTargetAllowed(file));
+}
+
+/**
+ * Checks whether a file may become a link target: it must be in the target scope and not excluded.
+ *
+ * @param {TFile} file - The file to check.
+ * @returns True if links to the file may be created.
+ */
+isTargetAllowed(file: TFile): boolean {
+    return !this.isExcluded(file.path) && this.targetScopeRules.includes(file, this.app.metadataCache.getFileCache(file));
+}
+
+/**
+ * Checks a path against the exclusion rules from the settings.
+ *
+ * @param {string} path The vault path of a file.
+ * @returns True if the file must be left out of the link creation process.
+ */
+isExcluded(path: string): boolean {
+    return this.exclusionRules.isExcluded(path);
+}
+
+/**
+ * Checks whether a note opts out of linking with `tml: false` in its frontmatter.
+ * Such notes are never modified by the plugin, but other notes can still link to them.
+ *
+ * @param {TFile} file The note to check.
+ * @returns True if the note must not be processed.
+ */
+isLinkingDisabled(file: TFile): boolean {
+    const value = parseFrontMatterEntry(this.app.metadataCache.getFileCache(file)?.frontmatter, 'tml');
+    return value === false || String(value).toLowerCase() === 'false';
+}
+
+/**
+ * Reads the targets a note must never link to from its `tml-ignore` frontmatter.
+ * Entries may be note titles or aliases, written as plain text or as wikilinks, in a list or a comma-separated string.
+ *
+ * @param {TFile} file The note being processed.
+ * @returns The lowercased titles and aliases to skip.
+ */
+getIgnoredTargets(file: TFile): Set<string> {
+    const value = parseFrontMatterEntry(this.app.metadataCache.getFileCache(file)?.frontmatter, 'tml-ignore');
+    if (value === null || value === undefined) return new Set();
+
+    const entries: string[] = Array.isArray(value) ? value.map(String) : String(value).split(',');
+    return new Set(entries
+        .map(entry => entry.trim().replace(/^\[\[(.*?)(?:\|.*)?\]\]$/, '$1').trim().toLowerCase())
+        .filter(Boolean));
+}
+
+/**
+ * Determines whether a line belongs to a Markdown construct in which linking is disabled by the settings.
+ *
+ * @param {string} line The line to check.
+ * @param {boolean} inQuote Whether the line is in a blockquote or a callout.
+ * @param {string | null} calloutType The type of the callout the line is in, or null if it is not in a callout.
+ *        A `> [!quote]` callout is a callout, so only the protected callout types decide for it.
+ * @param {boolean} isTableLine Whether the line is part of a table.
+ * @returns True if the line must not receive links.
+ */
+isProtectedConstruct(line: string, inQuote: boolean, calloutType: string | null, isTableLine: boolean): boolean {
+    if (!this.settings.linkInHeadings && /^\s{0,3}#{1,6}(\s|$)/.test(line.replace(/^\s*(?:>\s*)*/, ''))) return true;
+    if (!this.settings.linkInTables && isTableLine) return true;
 
-    // Define regex for Markdown links and plain URLs.
-    const markdownLinkRegex = /\[([^\]]+?)\]\((https?:\/\/[^\s)]+?)\)/g;
-    const urlRegex = /https?:\/\/\S+/g;
+    if (calloutType !== null) {
+        const protectedTypes = this.settings.protectedCalloutTypes.map(type => type.toLowerCase());
+        return protectedTypes.includes('*') || protectedTypes.includes(calloutType);
+    }
+    if (inQuote) return !this.settings.linkInBlockquotes;
 
-    lines.forEach((line, i) => {
-        // Initialize hasLink to false for each line.
-        let hasLink = false;
+    return false;
+}
 
-        // Test the current line for Markdown links.
-        if (markdownLinkRegex.test(line)) {
-            hasLink = true;
+/**
+ * Marks the lines that belong to a table. A table starts with a header row followed by a delimiter row
+ * (such as `| --- | :-: |`) and continues for as long as the following lines contain a pipe.
+ *
+ * @param {string[]} lines The lines of the note.
+ * @returns A flag for each line, true if the line is part of a table.
+ */
+findTableLines(lines: string[]): boolean[] {
+    const tableLines: boolean[] = new Array(lines.length).fill(false);
+    const delimiterRow = /^\s*(?:>\s*)*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/;
+
+    for (let i = 1; i < lines.length; i++) {
+        if (lines[i].includes('|') || lines[i - 1].includes('|')) {
+            if (delimiterRow.test(lines[i]) && lines[i - 1].includes('|')) {
+                tableLines[i - 1] = true;
+                for (let j = i; j < lines.length && lines[j].includes('|'); j++) {
+                    tableLines[j] = true;
+                }
+            }
         }
-        // If no Markdown link was found, test for plain URLs.
-        else if (urlRegex.test(line)) {
-            hasLink = true;
+    }
+
+    return tableLines;
+}
+
+/**
+ * Splits the content of a note into ranges of plain prose, the only places where links are created.
+ * The prose ranges are everything outside of the ranges returned by `findProtectedRanges`, so a line
+ * that contains a URL or an existing link can still receive links in its other parts.
+ *
+ * @param {string} content The content of the note.
+ * @param {NoteStructure} [structure] Receives the headings and existing links of the note, see `findProtectedRanges`.
+ * @returns The prose ranges, in order and without overlaps.
+ */
+findProseRanges(content: string, structure?: NoteStructure): TextRange[] {
+    const protectedRanges = this.findProtectedRanges(content, structure).sort((a, b) => a.start - b.start);
+    const proseRanges: TextRange[] = [];
+
+    let cursor = 0;
+    protectedRanges.forEach(range => {
+        if (range.start > cursor) {
+            proseRanges.push({ start: cursor, end: range.start });
         }
+        cursor = Math.max(cursor, range.end);
+    });
+    if (cursor < content.length) {
+        proseRanges.push({ start: cursor, end: content.length });
+    }
 
-        // Update the flag for the current line.
-        inLinkFlags[i] = hasLink;
+    return proseRanges;
+}
 
-        // Reset regex indices (necessary because test() and exec() methods affect lastIndex).
-        markdownLinkRegex.lastIndex = 0;
-        urlRegex.lastIndex = 0;
+/**
+ * Processes the content of a note to automatically create links based on matching titles in the vault.
+ * Only plain prose is considered; front matter, code, math, comments, existing links, and other Markdown syntax are left untouched.
+ * All candidates are matched in one pass, then overlapping matches are resolved by `resolveOverlappingMatches`
+ * so the result does not depend on the order of the candidates.
+ * When several notes share the matched title, `disambiguateMatches` picks one of them and records the case for review.
+ * See `buildLinkText` for how the link itself is written.
+ *
+ * @param {string} originalContent - The original content of the note to process.
+ * @param {TitleMatcher} matcher - The matcher built from the titles and aliases of all eligible notes.
+ * @param {TFile} currentFile - The note being processed, to avoid self-linking and to read its `tml-ignore` frontmatter.
+ * @returns An object containing the processed content, the total number of links added, the ambiguous mentions,
+ *          and the inserted links.
+ */
+processContent(originalContent: string, matcher: TitleMatcher, currentFile: TFile): { content: string, linksAdded: number, ambiguities: AmbiguousMatch[], insertions: LinkInsertion[] } {
+    // Step 1: Find the ranges of plain prose that are eligible for linking, along with the headings and existing links.
+    const structure: NoteStructure = { headingOffsets: [], links: [] };
+    const proseRanges = this.findProseRanges(originalContent, structure);
+
+    // Step 2: Match titles within each range, skipping the current note's own title and aliases to avoid self-linking,
+    // as well as the targets listed in the note's `tml-ignore` frontmatter. Other notes that share the current
+    // note's title can still be linked.
+    const ignoredTargets = this.getIgnoredTargets(currentFile);
+    const matches: LinkMatch[] = [];
+    proseRanges.forEach(range => {
+        matcher.findMatches(originalContent.slice(range.start, range.end)).forEach(match => {
+            if (match.candidate.file.path === currentFile.path) return;
+            const targetTitle = match.candidate.file.basename.toLowerCase();
+            const matchedTitle = (match.candidate.inflectedFrom ?? match.candidate.text).toLowerCase();
+            if (ignoredTargets.has(targetTitle) || ignoredTargets.has(matchedTitle)) return;
+            matches.push({ ...match, start: range.start + match.start, end: range.start + match.end });
+        });
     });
 
-    return { sanitizedContent: content, inLinkFlags };
+    // Step 3: Choose between notes that share the same title, then keep a single link wherever matches overlap.
+    // Finally, drop the links beyond the limits set in the settings.
+    const { matches: unambiguousMatches, ambiguities } = this.disambiguateMatches(matches, currentFile);
+    const selectedMatches = this.applyLinkLimits(this.resolveOverlappingMatches(unambiguousMatches), currentFile, structure);
+
+    // Step 4: Turn each selected match into a link, and rebuild the content with them.
+    const insertions: LinkInsertion[] = selectedMatches.map(match => ({
+        start: match.start,
+        end: match.end,
+        originalText: match.text,
+        linkText: this.buildLinkText(match.candidate, match.text, currentFile.path),
+        targetPath: match.candidate.file.path,
+    }));
+    const content = this.applyInsertions(originalContent, insertions);
+
+    return { content, linksAdded: insertions.length, ambiguities, insertions };
 }
 
+/**
+ * Rebuilds a note's content from left to right, replacing the text of each insertion with its link.
+ *
+ * @param {string} originalContent - The content the insertion offsets refer to.
+ * @param {LinkInsertion[]} insertions - The links to insert, sorted by offset.
+ * @returns The content with the links inserted.
+ */
+applyInsertions(originalContent: string, insertions: LinkInsertion[]): string {
+    let content = '';
+    let cursor = 0;
+    insertions.forEach(insertion => {
+        content += originalContent.slice(cursor, insertion.start) + insertion.linkText;
+        cursor = insertion.end;
+    });
+    return content + originalContent.slice(cursor);
+}
 
-    
-    
+/**
+ * Describes where an insertion is in a note, for review: its line number and the text around it on that line.
+ * Long lines are shortened to a few words on each side.
+ *
+ * @param {string} content - The content the insertion offsets refer to.
+ * @param {LinkInsertion} insertion - The insertion to describe.
+ * @returns The 1-based line number, and the text of the line before and after the replaced text.
+ */
+describeInsertion(content: string, insertion: LinkInsertion): { lineNumber: number, before: string, after: string } {
+    const lineStart = content.lastIndexOf('\n', insertion.start - 1) + 1;
+    const lineEnd = content.indexOf('\n', insertion.end);
+    const lineNumber = content.slice(0, lineStart).split('\n').length;
+
+    const contextLength = 60;
+    let before = content.slice(lineStart, insertion.start);
+    let after = content.slice(insertion.end, lineEnd === -1 ? content.length : lineEnd);
+    if (before.length > contextLength) before = '…' + before.slice(-contextLength);
+    if (after.length > contextLength) after = after.slice(0, contextLength) + '…';
+
+    return { lineNumber, before, after };
+}
 
-    /**
- * Processes the content of a note to automatically create links based on matching titles in the vault.
- * Sanitizes the content first to exclude front matter, code blocks, and existing links.
+/**
+ * Handles mentions that match several notes with the same title (or the same alias), such as two `Meeting.md`
+ * notes in different folders. For each such mention, a single target is kept according to the duplicate title strategy:
+ * - 'nearest': the note whose folder shares the longest path with the folder of the current note.
+ * - 'priority': the note in the earliest folder of the folder priority list; notes outside the list come last.
+ *   Ties fall back to the 'nearest' rule.
+ * - 'skip': no link is created for the mention.
+ * Remaining ties are broken by path, alphabetically. Each ambiguous title is reported once per note.
  *
- * @param {string} originalContent - The original content of the note to process.
- * @param {TFile[]} files - An array of all markdown files in the vault for title comparison.
- * @param {string} currentBasename - The basename of the current note to avoid self-linking.
- * @returns An object containing the processed content and the total number of links added.
+ * @param {LinkMatch[]} matches - All the matches found in the note.
+ * @param {TFile} currentFile - The note being processed.
+ * @returns The matches with a single target per mention, and the ambiguous mentions found.
  */
-processContent(originalContent: string, files: TFile[], currentBasename: string): { content: string, linksAdded: number } {
-    // Step 1: Sanitize content for front matter and code blocks.
-    const { sanitizedContent, frontMatter, codeBlocks } = this.frontMatterAndCodeBlockSanitizer(originalContent);
-    
-    // Step 2: Sanitize content for existing links to avoid nesting links.
-    const { sanitizedContent: contentAfterLinkSanitization, inLinkFlags } = this.linkSanitizer(sanitizedContent);
-    
-    let totalLinksAdded = 0;
-    const contentAfterProcessing: string[] = [];
-    
-    // Process each line individually, considering the sanitization flags.
-    contentAfterLinkSanitization.split('\n').forEach((line, i) => {
-        if (!frontMatter[i] && !codeBlocks[i] && !inLinkFlags[i]) {
-            // Line is eligible for link processing.
-            const { modifiedLine, linksAdded } = this.processLineForLinking(line, files, currentBasename);
-            totalLinksAdded += linksAdded;
-            contentAfterProcessing.push(modifiedLine);
-        } else {
-            // Line should remain unaltered.
-            contentAfterProcessing.push(line);
+disambiguateMatches(matches: LinkMatch[], currentFile: TFile): { matches: LinkMatch[], ambiguities: AmbiguousMatch[] } {
+    // Group the matches that cover the same text with the same kind of candidate.
+    const groups = new Map<string, LinkMatch[]>();
+    matches.forEach(match => {
+        const key = `${match.start}:${match.end}:${match.candidate.kind}:${match.candidate.text.toLowerCase()}`;
+        groups.set(key, [...(groups.get(key) ?? []), match]);
+    });
+
+    const folderOf = (path: string) => path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+    const currentFolder = folderOf(currentFile.path).split('/');
+    const sharedDepth = (file: TFile) => {
+        const folder = folderOf(file.path).split('/');
+        let depth = 0;
+        while (depth < folder.length && depth < currentFolder.length && folder[depth] === currentFolder[depth]) depth++;
+        // Prefer shallower notes among those sharing the same ancestor.
+        return depth * 1000 - folder.length;
+    };
+    const priorityOf = (file: TFile) => {
+        const index = this.settings.folderPriority.findIndex(folder => file.path.startsWith(folder.replace(/\/+$/, '') + '/'));
+        return index === -1 ? this.settings.folderPriority.length : index;
+    };
+
+    const result: LinkMatch[] = [];
+    const ambiguities = new Map<string, AmbiguousMatch>();
+    groups.forEach(group => {
+        const targets = [...new Set(group.map(match => match.candidate.file))];
+        if (targets.length === 1) {
+            result.push(group[0]);
+            return;
+        }
+
+        const strategy = this.settings.duplicateTitleStrategy;
+        let chosen: LinkMatch | null = null;
+        if (strategy !== 'skip') {
+            chosen = [...group].sort((a, b) =>
+                (strategy === 'priority' ? priorityOf(a.candidate.file) - priorityOf(b.candidate.file) : 0) ||
+                sharedDepth(b.candidate.file) - sharedDepth(a.candidate.file) ||
+                a.candidate.file.path.localeCompare(b.candidate.file.path)
+            )[0];
+            result.push(chosen);
+        }
+
+        const text = group[0].candidate.text;
+        if (!ambiguities.has(text.toLowerCase())) {
+            ambiguities.set(text.toLowerCase(), {
+                sourcePath: currentFile.path,
+                text,
+                targetPaths: targets.map(file => file.path).sort(),
+                chosenPath: chosen ? chosen.candidate.file.path : null,
+            });
         }
     });
-    
-    return { content: contentAfterProcessing.join('\n'), linksAdded: totalLinksAdded };
+
+    return { matches: result, ambiguities: [...ambiguities.values()] };
 }
 
 /**
- * Processes a single line of content to replace matching note titles with wiki-style links.
+ * Limits how many links are added to a note, according to the link frequency and the maximum links per note:
+ * - 'every': every mention is linked.
+ * - 'first-in-note': only the first mention of each target in the note is linked.
+ * - 'first-in-section': only the first mention of each target under each heading is linked.
+ * Targets the note already links to, before the run, count as mentioned in the section of the existing link.
+ * A link to a heading is a different target than a link to its note. The maximum links per note then keeps the
+ * first remaining matches in the note.
  *
- * @param {string} line - The current line of text being processed.
- * @param {TFile[]} files - An array of all markdown files in the vault for title comparison.
- * @param {string} currentBasename - The basename of the current note to avoid self-linking.
- * @returns An object containing the modified line and the number of links added within that line.
- */
-processLineForLinking(line: string, files: TFile[], currentBasename: string): {modifiedLine: string, linksAdded: number} {
-    let modifiedLine = line;
-    let linksAdded = 0;
-    
-    // Convert file basenames to lowercase for case-insensitive comparison.
-    files.map(f => f.basename.toLowerCase()).forEach(title => {
-        if (currentBasename.toLowerCase() !== title) {
-            // Escaping special characters in title for use in regular expression.
-            const sanitizedTitle = title.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-            const regex = new RegExp(`(?<!\\[\\[|\\]\\()\\b${sanitizedTitle}\\b(?!\\]\\]|\\([^)]*\\))`, 'gi');
-            
-            // Check if the current line contains the title.
-            const matches = line.match(regex);
-            if (matches) {
-                // Replace occurrences of the title with markdown links.
-                modifiedLine = modifiedLine.replace(regex, `[[${title}]]`);
-                linksAdded += matches.length;
+ * @param {LinkMatch[]} matches - The selected matches, sorted by their position in the note.
+ * @param {TFile} currentFile - The note being processed, against which existing links are resolved.
+ * @param {NoteStructure} structure - The headings and existing links of the content being processed.
+ *        They are not read from the metadata cache, which may lag behind the content.
+ * @returns The matches that should receive a link.
+ */
+applyLinkLimits(matches: LinkMatch[], currentFile: TFile, structure: NoteStructure): LinkMatch[] {
+    let limited = matches;
+
+    if (this.settings.linkFrequency !== 'every') {
+        const headingOffsets = this.settings.linkFrequency === 'first-in-section' ? structure.headingOffsets : [];
+        // Everything before the first heading belongs to section 0.
+        const sectionOf = (offset: number) => headingOffsets.filter(headingOffset => headingOffset <= offset).length;
+
+        // Record the targets the note already links to.
+        const linkedTargets = new Set<string>();
+        structure.links.forEach(existingLink => {
+            const { path, subpath } = parseLinktext(existingLink.link);
+            const target = this.app.metadataCache.getFirstLinkpathDest(path, currentFile.path);
+            if (target) {
+                linkedTargets.add(`${sectionOf(existingLink.offset)}:${target.path}${subpath}`);
+            }
+        });
+
+        limited = matches.filter(match => {
+            const key = `${sectionOf(match.start)}:${match.candidate.file.path}${match.candidate.subpath ?? ''}`;
+            if (linkedTargets.has(key)) return false;
+            linkedTargets.add(key);
+            return true;
+        });
+    }
+
+    return this.settings.maxLinksPerNote > 0 ? limited.slice(0, this.settings.maxLinksPerNote) : limited;
+}
+
+/**
+ * Reads the glossary file named in the settings into `glossaryCandidates`.
+ * A glossary is either a JSON file holding an object of phrase to target pairs, or a note with one entry per line
+ * written as `phrase:: [[Target]]` (list markers are allowed, other lines are ignored). Targets are link paths and
+ * may point to a heading (`Target#Heading`). A phrase written as `/pattern/flags` is a regular expression.
+ * Entries whose target does not exist, is excluded, or is outside of the target scope, and entries whose regular
+ * expression is invalid, are left out and reported.
+ *
+ * @returns The problems found in the glossary, one message per invalid entry.
+ */
+async loadGlossary(): Promise<string[]> {
+    this.glossaryCandidates = [];
+    const glossaryPath = this.settings.glossaryPath.trim();
+    if (!glossaryPath) return [];
+
+    const glossaryFile = this.app.vault.getAbstractFileByPath(glossaryPath);
+    if (!(glossaryFile instanceof TFile)) {
+        return [`The glossary file "${glossaryPath}" does not exist.`];
+    }
+
+    // Collect the raw entries, in the order they are written.
+    const content = await this.app.vault.cachedRead(glossaryFile);
+    const entries: { phrase: string, target: string }[] = [];
+    if (glossaryFile.extension === 'json') {
+        let data: unknown;
+        try {
+            data = JSON.parse(content);
+        } catch (parseError) {
+            return [`The glossary file "${glossaryPath}" is not valid JSON: ${parseError.message}`];
+        }
+        if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+            return [`The glossary file "${glossaryPath}" must contain an object of phrase to target pairs.`];
+        }
+        Object.keys(data).forEach(phrase => {
+            entries.push({ phrase, target: String((data as Record<string, unknown>)[phrase]) });
+        });
+    } else {
+        content.split('\n').forEach(line => {
+            const entryMatch = /^\s*(?:[-*+]\s+)?(.+?)\s*::\s*(.+?)\s*$/.exec(line);
+            if (entryMatch) {
+                // Accept both `[[Target]]` and `Target`, ignoring any display text.
+                entries.push({ phrase: entryMatch[1], target: entryMatch[2].replace(/^\[\[|\]\]$/g, '').split('|')[0] });
+            }
+        });
+    }
+
+    // Resolve each target, and compile the regex phrases.
+    const errors: string[] = [];
+    entries.forEach(({ phrase, target }) => {
+        const { path, subpath } = parseLinktext(target.trim());
+        const targetFile = this.app.metadataCache.getFirstLinkpathDest(path, glossaryFile.path);
+        if (!targetFile) {
+            errors.push(`"${phrase}": the target note "${target}" does not exist.`);
+            return;
+        }
+        if (!this.isTargetAllowed(targetFile)) {
+            errors.push(`"${phrase}": the target note "${targetFile.path}" is excluded or outside of the target scope.`);
+            return;
+        }
+
+        let pattern: RegExp | undefined;
+        const regexMatch = /^\/(.+)\/([a-z]*)$/.exec(phrase);
+        if (regexMatch) {
+            try {
+                // Every occurrence is needed, so the global flag is always set.
+                pattern = new RegExp(regexMatch[1], regexMatch[2].replace(/[gy]/g, '') + 'g');
+            } catch (regexError) {
+                errors.push(`"${phrase}": ${regexError.message}`);
+                return;
+            }
+        }
+
+        this.glossaryCandidates.push({ text: phrase, file: targetFile, kind: 'glossary', subpath: subpath || undefined, pattern });
+    });
+
+    return errors;
+}
+
+/**
+ * Reloads the glossary before a run, and reports the invalid entries in the console and in a notice.
+ */
+async refreshGlossary() {
+    const errors = await this.loadGlossary();
+    if (errors.length > 0) {
+        console.error("[TitleMatchLinker] Invalid glossary entries ignored:", errors);
+        new Notice(`${errors.length} glossary entries were ignored. Check the plugin settings for details.`);
+    }
+}
+
+/**
+ * Builds a title matcher for the given files, configured from the current settings.
+ *
+ * @param {TFile[]} files - The files that may become link targets.
+ * @param {Set<string>} skippedTitles - Lowercased titles and aliases to leave out for this run only.
+ * @returns A matcher that can be reused for every note of a run.
+ */
+buildTitleMatcher(files: TFile[], skippedTitles: Set<string> = new Set()): TitleMatcher {
+    return new TitleMatcher(this.collectLinkCandidates(files, skippedTitles), {
+        ignoreDiacritics: this.settings.ignoreDiacritics,
+        cjkSegmentation: this.settings.cjkSegmentation,
+    });
+}
+
+/**
+ * Builds the list of link candidates for the given files.
+ * Each file contributes its basename and every entry of its `aliases` frontmatter, as read from the metadata cache.
+ * Aliases that only repeat the basename are skipped, as are titles and aliases that are in the ignored titles list,
+ * shorter than the minimum title length, or among the titles skipped for the current run.
+ * The glossary phrases are added as they are, since they were chosen explicitly; only the titles skipped for the run apply.
+ * When an inflection mode is selected, the inflected forms of the remaining titles, aliases, and phrases are added too,
+ * except for the forms that are themselves ignored or skipped.
+ *
+ * @param {TFile[]} files - The files that may become link targets.
+ * @param {Set<string>} skippedTitles - Lowercased titles and aliases to leave out for this run only.
+ * @returns An array of link candidates: basenames, aliases, and their inflected forms.
+ */
+collectLinkCandidates(files: TFile[], skippedTitles: Set<string> = new Set()): LinkCandidate[] {
+    const ignoredTitles = new Set(this.settings.ignoredTitles.map(title => title.trim().toLowerCase()));
+    const isAllowed = (text: string) => text.length >= this.settings.minimumTitleLength &&
+        !ignoredTitles.has(text.toLowerCase()) && !skippedTitles.has(text.toLowerCase());
+    const candidates = this.collectAllLinkCandidates(files).filter(candidate => isAllowed(candidate.text))
+        .concat(this.glossaryCandidates.filter(candidate => !skippedTitles.has(candidate.text.toLowerCase())));
+    return candidates.concat(this.collectInflectedCandidates(candidates)
+        .filter(candidate => !ignoredTitles.has(candidate.text.toLowerCase()) && !skippedTitles.has(candidate.text.toLowerCase())));
+}
+
+/**
+ * Builds the inflected forms of the given candidates with the inflector selected in the settings.
+ * Titles in the inflection exclusion list, regex phrases, and forms identical to their title are skipped.
+ *
+ * @param {LinkCandidate[]} candidates - The title and alias candidates.
+ * @returns The inflected candidates, or an empty array if inflection is off.
+ */
+collectInflectedCandidates(candidates: LinkCandidate[]): LinkCandidate[] {
+    const inflector = INFLECTORS.get(this.settings.inflectionMode);
+    if (!inflector) return [];
+
+    const excludedTitles = new Set(this.settings.inflectionExcludedTitles.map(title => title.trim().toLowerCase()));
+    const inflected: LinkCandidate[] = [];
+    candidates.forEach(candidate => {
+        if (candidate.pattern || excludedTitles.has(candidate.text.toLowerCase())) return;
+
+        const forms = new Set(inflector.inflect(candidate.text).filter(form => form.toLowerCase() !== candidate.text.toLowerCase()));
+        forms.forEach(form => {
+            inflected.push({ text: form, file: candidate.file, kind: 'inflection', inflectedFrom: candidate.text, subpath: candidate.subpath });
+        });
+    });
+    return inflected;
+}
+
+/**
+ * Makes an inflector available in the settings, so that titles can be matched in their inflected forms
+ * in languages other than English. Registering an inflector with an existing id replaces it.
+ *
+ * @param {Inflector} inflector - The inflector to add.
+ */
+registerInflector(inflector: Inflector) {
+    INFLECTORS.set(inflector.id, inflector);
+}
+
+/**
+ * Builds the unfiltered list of link candidates for the given files, before the ignored titles and minimum length apply.
+ * When heading links are enabled, the headings of the selected levels are added as well. A heading is skipped when it
+ * repeats the note's own title or one of its aliases, when it appears twice in the same note, or when it contains
+ * characters that cannot be used in a link (`[ ] | # ^`).
+ *
+ * @param {TFile[]} files - The files that may become link targets.
+ * @returns An array of link candidates: basenames, aliases, and headings.
+ */
+collectAllLinkCandidates(files: TFile[]): LinkCandidate[] {
+    const candidates: LinkCandidate[] = [];
+    const headingLevels = new Set(this.settings.headingLevels);
+
+    files.forEach(file => {
+        candidates.push({ text: file.basename, file, kind: 'title' });
+        const knownTexts = new Set([file.basename.toLowerCase()]);
+
+        // Read aliases from the metadata cache rather than parsing the file ourselves.
+        const cache = this.app.metadataCache.getFileCache(file);
+        const aliases = parseFrontMatterAliases(cache?.frontmatter ?? null) ?? [];
+        aliases.forEach(alias => {
+            const aliasText = String(alias).trim();
+            if (aliasText && !knownTexts.has(aliasText.toLowerCase())) {
+                candidates.push({ text: aliasText, file, kind: 'alias' });
+                knownTexts.add(aliasText.toLowerCase());
             }
+        });
+
+        if (!this.settings.linkToHeadings) return;
+        (cache?.headings ?? []).forEach(heading => {
+            const headingText = heading.heading.trim();
+            if (!headingLevels.has(heading.level) || !headingText || /[[\]|#^]/.test(headingText)) return;
+            if (knownTexts.has(headingText.toLowerCase())) return;
+
+            candidates.push({ text: headingText, file, kind: 'heading', subpath: `#${headingText}` });
+            knownTexts.add(headingText.toLowerCase());
+        });
+    });
+
+    return candidates;
+}
+
+/**
+ * Selects a set of non-overlapping matches from all the matches found in a note.
+ * Matches are considered in the following order, and a match is kept only if it does not overlap a
+ * previously kept match:
+ * 1. Longer matches first, so "Machine Learning" wins over "Learning".
+ * 2. Glossary phrases before note titles, titles before aliases, aliases before headings, and headings before
+ *    inflected forms. A heading that has the same text as a note title therefore never wins over the note itself,
+ *    while a glossary entry overrides the note that shares its phrase.
+ * 3. Matches whose casing is identical to the candidate text before case-insensitive ones.
+ * 4. Matches that start earlier in the note.
+ * 5. Target notes by path, alphabetically.
+ * The last rule makes the outcome independent of the order in which the vault returns its files.
+ *
+ * @param {LinkMatch[]} matches - All the matches found in the note, possibly overlapping.
+ * @returns The selected matches, sorted by their position in the note.
+ */
+resolveOverlappingMatches(matches: LinkMatch[]): LinkMatch[] {
+    const ordered = [...matches].sort((a, b) =>
+        (b.end - b.start) - (a.end - a.start) ||
+        CANDIDATE_KIND_PRIORITY[a.candidate.kind] - CANDIDATE_KIND_PRIORITY[b.candidate.kind] ||
+        Number(b.text === b.candidate.text) - Number(a.text === a.candidate.text) ||
+        a.start - b.start ||
+        a.candidate.file.path.localeCompare(b.candidate.file.path)
+    );
+
+    const overlaps = (a: TextRange, b: TextRange) => a.start < b.end && b.start < a.end;
+    const selected: LinkMatch[] = [];
+    ordered.forEach(match => {
+        if (!selected.some(other => overlaps(other, match))) {
+            selected.push(match);
         }
     });
 
-    return { modifiedLine, linksAdded };
+    return selected.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Builds the link that replaces a matched piece of text, as a wikilink or a Markdown link depending on the link style.
+ * The link path follows the link path format (see `buildLinkPath`). With the default shortest format, notes sharing
+ * a basename with other notes get a path-qualified link such as `[[Team/Meeting|Meeting]]`. Heading candidates
+ * append their subpath, as in `[[Docker#Volumes|volumes]]`.
+ * - With "Preserve original casing" enabled, the matched text is kept as display text unless it is
+ *   identical to the link path: "kubernetes cluster" becomes `[[Kubernetes Cluster|kubernetes cluster]]`.
+ * - With it disabled, title matches are rewritten to the note title (`[[Kubernetes Cluster]]`) and alias
+ *   matches use the alias as written in the target's frontmatter. Glossary matches always keep the matched text.
+ * Markdown links always have display text, and their path is URL-encoded: `[kubernetes cluster](Kubernetes%20Cluster.md)`.
+ *
+ * @param {LinkCandidate} candidate - The candidate that produced the match.
+ * @param {string} matchedText - The text exactly as it appears in the note.
+ * @param {string} sourcePath - The path of the note receiving the link.
+ * @returns The link to insert in place of the matched text.
+ */
+buildLinkText(candidate: LinkCandidate, matchedText: string, sourcePath: string): string {
+    const displayText = this.settings.preserveOriginalCasing || candidate.kind === 'glossary' ? matchedText : candidate.text;
+    const useMarkdownLinks = this.settings.linkStyle === 'vault'
+        ? this.getVaultConfig('useMarkdownLinks') === true
+        : this.settings.linkStyle === 'markdown';
+
+    if (useMarkdownLinks) {
+        // Parentheses are encoded as well, since they would end the link destination.
+        const encode = (text: string) => encodeURI(text).replace(/\(/g, '%28').replace(/\)/g, '%29');
+        const linkPath = encode(this.buildLinkPath(candidate.file, sourcePath, false));
+        const subpath = candidate.subpath ? '#' + encode(candidate.subpath.slice(1)) : '';
+        return `[${displayText}](${linkPath}${subpath})`;
+    }
+
+    const linkPath = this.buildLinkPath(candidate.file, sourcePath, true) + (candidate.subpath ?? '');
+    return displayText === linkPath ? `[[${linkPath}]]` : `[[${linkPath}|${displayText}]]`;
+}
+
+/**
+ * Computes the path written in a link to the given note, according to the link path format:
+ * - 'shortest': the shortest path that identifies the note, usually its basename.
+ * - 'relative': the path relative to the folder of the note receiving the link, such as `../Projects/Alpha`.
+ * - 'absolute': the full path from the vault root.
+ * - 'vault': the format chosen in Obsidian's "New link format" option.
+ *
+ * @param {TFile} file - The note the link points to.
+ * @param {string} sourcePath - The path of the note receiving the link.
+ * @param {boolean} omitMdExtension - Whether to leave out the `.md` extension, as wikilinks do.
+ * @returns The link path, not encoded.
+ */
+buildLinkPath(file: TFile, sourcePath: string, omitMdExtension: boolean): string {
+    const format = this.settings.linkPathFormat === 'vault'
+        ? (this.getVaultConfig('newLinkFormat') ?? 'shortest')
+        : this.settings.linkPathFormat;
+    const targetPath = omitMdExtension ? file.path.replace(/\.md$/, '') : file.path;
+
+    if (format === 'absolute') {
+        return targetPath;
+    }
+    if (format === 'relative') {
+        const sourceFolders = sourcePath.split('/').slice(0, -1);
+        const targetParts = targetPath.split('/');
+        let shared = 0;
+        while (shared < sourceFolders.length && shared < targetParts.length - 1 && sourceFolders[shared] === targetParts[shared]) {
+            shared++;
+        }
+        return [...sourceFolders.slice(shared).map(() => '..'), ...targetParts.slice(shared)].join('/');
+    }
+    return this.app.metadataCache.fileToLinktext(file, sourcePath, omitMdExtension);
+}
+
+/**
+ * Reads one of Obsidian's own vault options, such as `useMarkdownLinks` or `newLinkFormat`.
+ * These options are not part of the public API, so a missing value is returned as undefined.
+ *
+ * @param {string} key - The name of the option.
+ * @returns The value of the option, if it is set.
+ */
+getVaultConfig(key: string): unknown {
+    const vault = this.app.vault as unknown as { getConfig?: (key: string) => unknown };
+    return typeof vault.getConfig === 'function' ? vault.getConfig(key) : undefined;
 }
     /**
  * Asynchronously loads the plugin settings from the Obsidian data storage.
@@ -776,10 +2649,17 @@ async loadSettings() {
     this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
     console.log("[TitleMatchLinker] Loaded settings:", JSON.stringify(this.settings, null, 2));
 
+    this.compileRules();
+    if (this.exclusionRules.errors.length > 0) {
+        console.error("[TitleMatchLinker] Invalid exclusion rules ignored:", this.exclusionRules.errors);
+    }
+
     // Delay checking for the existence of folders specified in the excludedFolders setting.
     setTimeout(async () => {
-        // Filter for folders that do not exist in the vault.
-        const nonExistentFolders = this.settings.excludedFolders.filter(folder => !(this.app.vault.getAbstractFileByPath(folder) instanceof TFolder));
+        // Filter for plain folder paths that do not exist in the vault. Globs and regular expressions are not checked.
+        const nonExistentFolders = this.exclusionRules.rules
+            .filter(rule => rule.kind === 'path' && !rule.negated && !this.app.vault.getAbstractFileByPath(rule.pattern))
+            .map(rule => rule.source);
         
         if (nonExistentFolders.length > 0) {
             console.log(`[TitleMatchLinker] Non-existent folders detected in settings: ${nonExistentFolders.join(', ')}`);
@@ -789,11 +2669,21 @@ async loadSettings() {
     }, 5000); // 5-second delay to accommodate vault loading times.
 }
 
+/**
+ * Compiles the exclusion and scope rules from the current settings.
+ */
+compileRules() {
+    this.exclusionRules = new ExclusionRules(this.settings.excludedFolders);
+    this.sourceScopeRules = new ScopeRules(this.settings.sourceScope);
+    this.targetScopeRules = new ScopeRules(this.settings.targetScope);
+}
+
 /**
  * Asynchronously saves the current settings to the Obsidian data storage.
  * This method encapsulates the save operation with error handling to ensure stability.
  */
 async saveSettings() {
+    this.compileRules();
     try {
         await this.saveData(this.settings);
         console.log("[TitleMatchLinker] Settings successfully saved.");
@@ -806,21 +2696,57 @@ async saveSettings() {
 
     /**
  * Reverts changes made to notes by restoring content from backup files.
+ * The notes with pending changes in the run manifests are restored first, newest run first, and marked as reverted.
+ * Edits made since the run are kept (see `mergeRevert`); notes whose edits conflict with the links are not modified,
+ * keep their backup, and are listed once the process completes, as are the notes whose earlier sessions were then
+ * skipped.
+ * Backup files that no manifest refers to, made before run manifests existed, are then restored using the
+ * naming convention based on the note's path.
  * Upon successful reversion, it also deletes the backup files and the ReviewChanges.md log.
  */
 async revertChanges() {
     const backupFolder = "_tmlbackups";
-    // Retrieve all backup files within the specified folder.
-    const backupFiles = await this.app.vault.getFiles().filter(file => file.path.startsWith(backupFolder + "/") && file.extension === "bak");
-
-    if (backupFiles.length === 0) {
+    const pendingRecords = this.getPendingRecords();
+    // Retrieve all backup files directly within the specified folder, made before sessions had backup folders of their
+    // own, that no manifest refers to.
+    const recordedBackupPaths = new Set(pendingRecords.map(({ record }) => record.backupPath));
+    const backupFiles = this.app.vault.getFiles().filter(file =>
+        file.parent?.path === backupFolder && file.extension === "bak" && !recordedBackupPaths.has(file.path));
+
+    if (pendingRecords.length === 0 && backupFiles.length === 0) {
         new Notice("No backup files found to revert.");
         return;
     }
 
     // Display a progress modal to inform the user about the reversion progress.
-    const progressModal = new ProgressModal(this.app, backupFiles.length, 'reversion');
+    const progressModal = new ProgressModal(this.app, pendingRecords.length + backupFiles.length, 'reversion');
     progressModal.open();
+    const conflictedFiles: { file: TFile, conflicts: MergeConflict[] }[] = [];
+
+    // Sessions are reverted newest first, so that notes changed by several sessions are reverted last in, first out.
+    // Once the revert of a note conflicts or fails, the earlier sessions' changes to it are skipped, since they would
+    // be reverted against content that still has the later session's links.
+    const stuckPaths = new Set<string>();
+    const skippedRecords: ManifestFileRecord[] = [];
+    for (const { manifest, record } of pendingRecords) {
+        if (stuckPaths.has(record.path)) {
+            skippedRecords.push(record);
+            progressModal.updateProgress(record.path);
+            continue;
+        }
+        try {
+            const result = await this.revertRecord(manifest, record);
+            if (result.conflicts.length > 0) {
+                conflictedFiles.push(result);
+                stuckPaths.add(record.path);
+            }
+            progressModal.updateProgress(result.file.name);
+        } catch (error) {
+            stuckPaths.add(record.path);
+            console.error("Error reverting file from backup", error);
+            new Notice(`Error reverting file: ${record.path}. Check console for details.`);
+        }
+    }
 
     for (const backupFile of backupFiles) {
         try {
@@ -847,11 +2773,11 @@ async revertChanges() {
         }
     }
 
-    // Attempt to delete the ReviewChanges.md log if it exists.
+    // Attempt to delete the ReviewChanges.md log if it exists and no note is left to revert.
     try {
         const reviewChangesPath = "_tmldata/ReviewChanges.md";
         const reviewChangesFile = this.app.vault.getAbstractFileByPath(reviewChangesPath);
-        if (reviewChangesFile instanceof TFile) {
+        if (reviewChangesFile instanceof TFile && stuckPaths.size === 0) {
             await this.app.vault.delete(reviewChangesFile);
             new Notice("ReviewChanges.md log has been deleted.");
         }
@@ -862,7 +2788,15 @@ async revertChanges() {
 
     // Close the progress modal and notify the user upon completion.
     progressModal.completeProcess();
-    new Notice("Reversion process completed.");
+    if (skippedRecords.length > 0) {
+        new Notice(`Earlier changes to these notes were not reverted, since a later revert of the same note did not complete: ${[...new Set(skippedRecords.map(record => record.path))].join(', ')}.`);
+    }
+    if (conflictedFiles.length > 0) {
+        new Notice(`Reversion process completed. ${conflictedFiles.length} notes were edited where links were added and were left as they are.`);
+        new RevertConflictModal(this.app, this, conflictedFiles).open();
+    } else {
+        new Notice("Reversion process completed.");
+    }
 }
 
 /**
@@ -932,220 +2866,1877 @@ async deleteFolderAndContents(folderPath: string) {
     
 
 /**
- * Custom modal class for displaying progress information during long-running operations.
+ * Options that control how a `TitleMatcher` compares text.
+ */
+interface TitleMatcherOptions {
+    ignoreDiacritics: boolean; // Strip accents and other combining marks before comparing.
+    cjkSegmentation: boolean; // Use `Intl.Segmenter` to find word boundaries inside Chinese and Japanese text.
+}
+
+/**
+ * The subset of `Intl.Segmenter` used for CJK word boundaries. It is not part of the ES libraries this project targets.
+ */
+type WordSegmenter = { segment(text: string): Iterable<{ index: number }> };
+const IntlSegmenter = (Intl as unknown as { Segmenter?: new (locale?: string, options?: { granularity: 'word' }) => WordSegmenter }).Segmenter;
+
+/**
+ * Finds every occurrence of a set of link candidates in a piece of text using an Aho-Corasick automaton.
+ * The automaton is built once from all candidates and can then be reused for any number of notes,
+ * so the cost of matching a line grows with the length of the line rather than with the number of titles.
+ * Matching rules:
+ * - Comparison is case-insensitive and independent of Unicode normalization (NFC or NFD).
+ *   With `ignoreDiacritics`, accents are ignored as well, so "cafe" matches "Café".
+ * - A match must not be glued to a letter, digit, or underscore of any script on either side.
+ * - Chinese and Japanese have no spaces between words, so each of their characters counts as a word boundary.
+ *   With `cjkSegmentation`, boundaries inside such text come from `Intl.Segmenter` instead.
+ * Markdown syntax is not the matcher's concern: callers only pass it plain prose (see `findProseRanges`).
+ */
+class TitleMatcher {
+    candidates: LinkCandidate[];
+    options: TitleMatcherOptions;
+    private patternLengths: number[] = []; // Folded length of each candidate text.
+    private transitions: Map<string, number>[] = [new Map()]; // Goto function, one map per state.
+    private failures: number[] = [0]; // Failure link of each state.
+    private outputs: number[][] = [[]]; // Indices of the candidates recognised in each state.
+    private patternCandidates: { candidate: LinkCandidate, pattern: RegExp }[] = []; // Candidates searched with a regular expression.
+
+    static readonly WORD_CHARACTER = /[\p{L}\p{N}\p{M}_]/u;
+    static readonly CJK_CHARACTER = /[\p{Script_Extensions=Han}\p{Script_Extensions=Hiragana}\p{Script_Extensions=Katakana}]/u;
+    static readonly COMBINING_MARKS = /\p{M}/gu;
+
+    /**
+     * Builds the automaton from the given candidates.
+     *
+     * @param {LinkCandidate[]} candidates - The titles and aliases to search for.
+     * @param {TitleMatcherOptions} options - How text should be compared.
+     */
+    constructor(candidates: LinkCandidate[], options: TitleMatcherOptions) {
+        this.candidates = candidates;
+        this.options = options;
+
+        // Build the trie of folded candidate texts.
+        candidates.forEach((candidate, index) => {
+            // Regex candidates are searched separately; their text is not part of the trie.
+            if (candidate.pattern) {
+                this.patternCandidates.push({ candidate, pattern: candidate.pattern });
+                this.patternLengths.push(0);
+                return;
+            }
+
+            const pattern = this.fold(candidate.text).folded;
+            this.patternLengths.push(pattern.length);
+            if (!pattern) return;
+
+            let state = 0;
+            for (let i = 0; i < pattern.length; i++) {
+                const character = pattern[i];
+                let next = this.transitions[state].get(character);
+                if (next === undefined) {
+                    next = this.transitions.length;
+                    this.transitions.push(new Map());
+                    this.failures.push(0);
+                    this.outputs.push([]);
+                    this.transitions[state].set(character, next);
+                }
+                state = next;
+            }
+            this.outputs[state].push(index);
+        });
+
+        // Compute failure links breadth-first, merging the outputs of each failure state.
+        const queue: number[] = [...this.transitions[0].values()];
+        for (let head = 0; head < queue.length; head++) {
+            const state = queue[head];
+            this.transitions[state].forEach((next, character) => {
+                let failure = this.failures[state];
+                while (failure !== 0 && !this.transitions[failure].has(character)) {
+                    failure = this.failures[failure];
+                }
+                const target = this.transitions[failure].get(character);
+                this.failures[next] = target !== undefined && target !== next ? target : 0;
+                this.outputs[next] = this.outputs[next].concat(this.outputs[this.failures[next]]);
+                queue.push(next);
+            });
+        }
+    }
+
+    /**
+     * Folds text for comparison: lowercases it, decomposes it (NFD), and optionally drops combining marks.
+     * Folding can change the length of the text, so the offset in the original text of every folded
+     * character is returned alongside, followed by the length of the original text.
+     *
+     * @param {string} text - The text to fold.
+     * @returns The folded text and the original offset of each of its characters.
+     */
+    fold(text: string): { folded: string, offsets: number[] } {
+        let folded = '';
+        const offsets: number[] = [];
+        for (let i = 0; i < text.length; i++) {
+            const code = text.charCodeAt(i);
+            let piece: string;
+            if (code < 0x80) {
+                // Fast path for ASCII, which needs no normalization.
+                piece = code >= 0x41 && code <= 0x5a ? String.fromCharCode(code + 0x20) : text[i];
+            } else {
+                piece = text[i].toLowerCase().normalize('NFD');
+                if (this.options.ignoreDiacritics) {
+                    piece = piece.replace(TitleMatcher.COMBINING_MARKS, '');
+                }
+            }
+            folded += piece;
+            for (let j = 0; j < piece.length; j++) {
+                offsets.push(i);
+            }
+        }
+        offsets.push(text.length);
+        return { folded, offsets };
+    }
+
+    /**
+     * Finds all occurrences of all candidates in the given text, including overlapping ones.
+     *
+     * @param {string} text - The text to search.
+     * @returns Every valid match, in no particular order.
+     */
+    findMatches(text: string): LinkMatch[] {
+        const { folded, offsets } = this.fold(text);
+        const matches: LinkMatch[] = [];
+        let segmentBoundaries: Set<number> | null | undefined;
+
+        let state = 0;
+        for (let i = 0; i < folded.length; i++) {
+            const character = folded[i];
+            while (state !== 0 && !this.transitions[state].has(character)) {
+                state = this.failures[state];
+            }
+            state = this.transitions[state].get(character) ?? 0;
+
+            this.outputs[state].forEach(index => {
+                // Map the folded match back to the original text. Trailing combining marks belong to the match.
+                const start = offsets[i + 1 - this.patternLengths[index]];
+                const end = offsets[i + 1];
+                if (segmentBoundaries === undefined) {
+                    segmentBoundaries = this.findSegmentBoundaries(text);
+                }
+                if (this.isValidMatch(text, start, end, segmentBoundaries)) {
+                    matches.push({ start, end, text: text.slice(start, end), candidate: this.candidates[index] });
+                }
+            });
+        }
+
+        // Regex candidates are matched against the original text, with the same boundary rules.
+        this.patternCandidates.forEach(({ candidate, pattern }) => {
+            const regex = new RegExp(pattern.source, pattern.flags);
+            let match: RegExpExecArray | null;
+            while ((match = regex.exec(text)) !== null) {
+                if (match[0].length === 0) {
+                    regex.lastIndex++;
+                    continue;
+                }
+                if (segmentBoundaries === undefined) {
+                    segmentBoundaries = this.findSegmentBoundaries(text);
+                }
+                const end = match.index + match[0].length;
+                if (this.isValidMatch(text, match.index, end, segmentBoundaries)) {
+                    matches.push({ start: match.index, end, text: match[0], candidate });
+                }
+            }
+        });
+
+        return matches;
+    }
+
+    /**
+     * Computes the word boundaries of the text with `Intl.Segmenter` when CJK segmentation is enabled
+     * and the text contains CJK characters.
+     *
+     * @param {string} text - The text to segment.
+     * @returns The offsets at which a word starts, or null when segmentation does not apply.
+     */
+    private findSegmentBoundaries(text: string): Set<number> | null {
+        if (!this.options.cjkSegmentation || !IntlSegmenter || !TitleMatcher.CJK_CHARACTER.test(text)) return null;
+
+        const boundaries = new Set<number>([text.length]);
+        for (const segment of new IntlSegmenter(undefined, { granularity: 'word' }).segment(text)) {
+            boundaries.add(segment.index);
+        }
+        return boundaries;
+    }
+
+    /**
+     * Checks the boundary rules around a match.
+     *
+     * @param {string} text - The text containing the match.
+     * @param {number} start - Offset of the first matched character.
+     * @param {number} end - Offset just past the last matched character.
+     * @param {Set<number> | null} segmentBoundaries - Word boundaries from `Intl.Segmenter`, if available.
+     * @returns True if the match can be turned into a link.
+     */
+    private isValidMatch(text: string, start: number, end: number, segmentBoundaries: Set<number> | null): boolean {
+        if (start >= end) return false;
+
+        // Word boundaries on both sides of the match.
+        return this.isBoundary(text, start, segmentBoundaries) && this.isBoundary(text, end, segmentBoundaries);
+    }
+
+    /**
+     * Determines whether a match may start or end at the given offset without cutting a word in two.
+     *
+     * @param {string} text - The text containing the match.
+     * @param {number} offset - The offset between the two characters to check.
+     * @param {Set<number> | null} segmentBoundaries - Word boundaries from `Intl.Segmenter`, if available.
+     * @returns True if the offset is a word boundary.
+     */
+    private isBoundary(text: string, offset: number, segmentBoundaries: Set<number> | null): boolean {
+        if (offset <= 0 || offset >= text.length) return true;
+
+        const previous = text[offset - 1];
+        const next = text[offset];
+        if (!TitleMatcher.WORD_CHARACTER.test(previous) || !TitleMatcher.WORD_CHARACTER.test(next)) return true;
+
+        // Between two CJK characters, either trust the segmenter or treat every character as a word.
+        if (TitleMatcher.CJK_CHARACTER.test(previous) || TitleMatcher.CJK_CHARACTER.test(next)) {
+            return segmentBoundaries ? segmentBoundaries.has(offset) : true;
+        }
+
+        return false;
+    }
+}
+
+
+/**
+ * A single line of the exclusion list, compiled for matching.
+ */
+interface ExclusionRule {
+    source: string; // The line as written by the user.
+    pattern: string; // The line without its negation prefix and surrounding slashes.
+    negated: boolean; // True for rules starting with "!", which re-include paths excluded by earlier rules.
+    kind: 'path' | 'name' | 'glob' | 'regex';
+    regex: RegExp | null; // The compiled pattern for every kind but 'path'.
+}
+
+/**
+ * Decides which files are excluded from the link creation process. Each rule is one of:
+ * - A plain path such as `Archive` or `Daily/2023`, which excludes that file or folder and everything inside it,
+ *   but not `Archive 2` or `Archived`.
+ * - A glob without a slash such as `*.excalidraw.md`, matched against every file and folder name in the path.
+ * - A glob with a slash such as `Projects/*.md` or `Daily/20??`, matched against the full path and against each parent folder.
+ *   `**` matches any number of folders, `*` and `?` match within a single name, and `[...]` matches a set of characters.
+ * - A regular expression written between slashes, such as `/^Journal\/\d{4}/i`, tested against the full path.
+ * A rule starting with `!` re-includes the paths it matches. Rules are applied in order and the last matching rule wins.
+ */
+class ExclusionRules {
+    rules: ExclusionRule[] = [];
+    errors: string[] = []; // Rules that could not be compiled, with the reason.
+
+    /**
+     * Compiles the given rules. Invalid rules are skipped and recorded in `errors`.
+     *
+     * @param {string[]} sources - The exclusion rules, one per entry.
+     */
+    constructor(sources: string[]) {
+        sources.map(source => source.trim()).filter(Boolean).forEach(source => {
+            try {
+                this.rules.push(ExclusionRules.parse(source));
+            } catch (error) {
+                this.errors.push(`${source}: ${error instanceof Error ? error.message : error}`);
+            }
+        });
+    }
+
+    /**
+     * Compiles a single exclusion rule.
+     *
+     * @param {string} source - The rule as written by the user.
+     * @returns The compiled rule.
+     * @throws {Error} If the rule is empty or its regular expression is invalid.
+     */
+    static parse(source: string): ExclusionRule {
+        const negated = source.startsWith('!');
+        let pattern = (negated ? source.slice(1) : source).trim();
+        if (!pattern) throw new Error('empty rule');
+
+        const regexMatch = /^\/(.+)\/([a-z]*)$/.exec(pattern);
+        if (regexMatch) {
+            return { source, pattern: regexMatch[1], negated, kind: 'regex', regex: new RegExp(regexMatch[1], regexMatch[2]) };
+        }
+
+        // Paths are relative to the vault root.
+        pattern = pattern.replace(/^(\.?\/)+/, '').replace(/\/+$/, '');
+        if (!pattern) throw new Error('empty path');
+
+        if (!/[*?[]/.test(pattern)) {
+            return { source, pattern, negated, kind: 'path', regex: null };
+        }
+        return { source, pattern, negated, kind: pattern.includes('/') ? 'glob' : 'name', regex: ExclusionRules.globToRegExp(pattern) };
+    }
+
+    /**
+     * Converts a glob into an anchored regular expression.
+     *
+     * @param {string} glob - The glob to convert.
+     * @returns A regular expression matching the same paths.
+     */
+    static globToRegExp(glob: string): RegExp {
+        let source = '';
+        for (let i = 0; i < glob.length; i++) {
+            const character = glob[i];
+            if (character === '*' && glob[i + 1] === '*') {
+                // "**/" matches zero or more folders; a trailing "**" matches everything below.
+                if (glob[i + 2] === '/') {
+                    source += '(?:.*/)?';
+                    i += 2;
+                } else {
+                    source += '.*';
+                    i += 1;
+                }
+            } else if (character === '*') {
+                source += '[^/]*';
+            } else if (character === '?') {
+                source += '[^/]';
+            } else if (character === '[' && glob.indexOf(']', i + 2) !== -1) {
+                const end = glob.indexOf(']', i + 2);
+                const set = glob.slice(i + 1, end).replace(/\\/g, '\\\\');
+                source += set.startsWith('!') ? `[^${set.slice(1)}]` : `[${set}]`;
+                i = end;
+            } else {
+                source += character.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+            }
+        }
+        return new RegExp(`^${source}$`);
+    }
+
+    /**
+     * Checks whether a single rule matches a path, regardless of negation.
+     *
+     * @param {ExclusionRule} rule - The rule to test.
+     * @param {string} path - The vault path of a file.
+     * @returns True if the rule matches the path.
+     */
+    static matches(rule: ExclusionRule, path: string): boolean {
+        switch (rule.kind) {
+            case 'path':
+                return path === rule.pattern || path.startsWith(rule.pattern + '/');
+            case 'regex':
+                return (rule.regex as RegExp).test(path);
+            case 'name':
+                return path.split('/').some(name => (rule.regex as RegExp).test(name));
+            case 'glob': {
+                // A glob matching a folder excludes everything inside it.
+                const segments = path.split('/');
+                for (let i = segments.length; i > 0; i--) {
+                    if ((rule.regex as RegExp).test(segments.slice(0, i).join('/'))) return true;
+                }
+                return false;
+            }
+        }
+    }
+
+    /**
+     * Applies all rules in order to a path.
+     *
+     * @param {string} path - The vault path of a file.
+     * @returns True if the last matching rule excludes the path.
+     */
+    isExcluded(path: string): boolean {
+        let excluded = false;
+        this.rules.forEach(rule => {
+            if (ExclusionRules.matches(rule, path)) {
+                excluded = !rule.negated;
+            }
+        });
+        return excluded;
+    }
+}
+
+
+/**
+ * Decides which notes belong to a scope, such as the notes that may be modified or the notes that may be linked to.
+ * Each rule is one of:
+ * - `folder:Glossary` (or just `Glossary`), using the same path and glob syntax as the exclusion rules.
+ * - `tag:#concept`, which also matches nested tags such as `#concept/physics`, in the frontmatter or in the body.
+ * - `property:type` for notes whose frontmatter has a non-empty `type`, or `property:type=concept` for a specific value.
+ *   Values are compared case-insensitively, and list properties match if any of their entries matches.
+ * A note is in scope if it matches any rule. A scope without rules contains every note.
+ */
+class ScopeRules {
+    folders: ExclusionRule[] = [];
+    tags: string[] = []; // Lowercased tags, without the leading "#".
+    properties: { key: string, value: string | null }[] = [];
+    errors: string[] = []; // Rules that could not be compiled, with the reason.
+
+    /**
+     * Compiles the given rules. Invalid rules are skipped and recorded in `errors`.
+     *
+     * @param {string[]} sources - The scope rules, one per entry.
+     */
+    constructor(sources: string[]) {
+        sources.map(source => source.trim()).filter(Boolean).forEach(source => {
+            try {
+                const [, prefix, rest] = /^(?:(folder|tag|property):)?(.*)$/i.exec(source) as RegExpExecArray;
+                const value = rest.trim();
+                switch ((prefix ?? 'folder').toLowerCase()) {
+                    case 'folder':
+                        this.folders.push(ExclusionRules.parse(value));
+                        break;
+                    case 'tag':
+                        if (!value.replace(/^#/, '')) throw new Error('empty tag');
+                        this.tags.push(value.replace(/^#/, '').toLowerCase());
+                        break;
+                    case 'property': {
+                        const separator = value.indexOf('=');
+                        const key = (separator === -1 ? value : value.slice(0, separator)).trim();
+                        if (!key) throw new Error('empty property name');
+                        this.properties.push({ key, value: separator === -1 ? null : value.slice(separator + 1).trim().toLowerCase() });
+                        break;
+                    }
+                }
+            } catch (error) {
+                this.errors.push(`${source}: ${error instanceof Error ? error.message : error}`);
+            }
+        });
+    }
+
+    /**
+     * Checks whether the scope has no rules and therefore contains every note.
+     *
+     * @returns True if the scope is unrestricted.
+     */
+    isEmpty(): boolean {
+        return this.folders.length === 0 && this.tags.length === 0 && this.properties.length === 0;
+    }
+
+    /**
+     * Checks whether a note belongs to the scope.
+     *
+     * @param {TFile} file - The note to check.
+     * @param {CachedMetadata | null} cache - The note's metadata, used for tags and properties.
+     * @returns True if the note matches any rule, or if the scope has no rules.
+     */
+    includes(file: TFile, cache: CachedMetadata | null): boolean {
+        if (this.isEmpty()) return true;
+
+        if (this.folders.some(rule => ExclusionRules.matches(rule, file.path) !== rule.negated)) return true;
+
+        if (this.tags.length > 0 && cache) {
+            const noteTags = (getAllTags(cache) ?? []).map(tag => tag.replace(/^#/, '').toLowerCase());
+            if (this.tags.some(tag => noteTags.some(noteTag => noteTag === tag || noteTag.startsWith(tag + '/')))) return true;
+        }
+
+        const frontmatter = cache?.frontmatter;
+        if (frontmatter) {
+            return this.properties.some(({ key, value }) => {
+                const property = frontmatter[key];
+                if (property === undefined || property === null || property === '' || property === false) return false;
+                if (value === null) return true;
+                const entries: unknown[] = Array.isArray(property) ? property : [property];
+                return entries.some(entry => String(entry).trim().toLowerCase() === value);
+            });
+        }
+
+        return false;
+    }
+}
+
+
+/**
+ * Stores the backups of notes under stable ids, with an index mapping each backup to its note.
+ * Backup files are named after their id, in a folder per session: `<folder>/<run id>/<id>.bak`, so that odd note
+ * names cannot be mistaken for paths and a renamed note keeps its backup. Each storage folder has its own index,
+ * `BACKUP_INDEX_FILE`, listing the backups it holds; it is deleted once the folder holds no backup.
+ * Files are accessed through the adapter, since the folder in the config directory is not part of the vault.
+ */
+export class BackupStore {
+    adapter: DataAdapter;
+    folders: string[]; // The folders that can hold backups, relative to the vault root.
+    entries = new Map<string, BackupEntry>(); // Every backup of every folder, keyed by id.
+
+    /**
+     * Creates an empty store. Call `load` to read the existing indexes.
+     *
+     * @param {DataAdapter} adapter - The vault adapter.
+     * @param {string[]} folders - The folders that can hold backups.
+     */
+    constructor(adapter: DataAdapter, folders: string[]) {
+        this.adapter = adapter;
+        this.folders = folders;
+    }
+
+    /**
+     * Reads the index of every folder. Unreadable indexes are skipped and logged.
+     */
+    async load() {
+        this.entries.clear();
+        for (const folder of this.folders) {
+            const indexPath = `${folder}/${BACKUP_INDEX_FILE}`;
+            if (!(await this.adapter.exists(indexPath))) continue;
+            try {
+                const index: { version: number, backups: BackupEntry[] } = JSON.parse(await this.adapter.read(indexPath));
+                index.backups.forEach(entry => this.entries.set(entry.id, entry));
+            } catch (error) {
+                console.error(`[TitleMatchLinker] Skipping unreadable backup index ${indexPath}:`, error);
+            }
+        }
+    }
+
+    /**
+     * Finds the entry of a backup.
+     *
+     * @param {string} backupPath - The path of the backup file.
+     * @returns The entry, or undefined if the backup is not in the store.
+     */
+    find(backupPath: string): BackupEntry | undefined {
+        return [...this.entries.values()].find(entry => entry.backupPath === backupPath);
+    }
+
+    /**
+     * Checks whether a backup is in the store.
+     *
+     * @param {string} backupPath - The path of the backup file.
+     * @returns True if the backup is in the store.
+     */
+    has(backupPath: string): boolean {
+        return this.find(backupPath) !== undefined;
+    }
+
+    /**
+     * Writes a backup of a note and records it in the index of its folder.
+     *
+     * @param {string} folder - The folder to store the backup in, one of `folders`.
+     * @param {string} runId - The session making the backup.
+     * @param {string} path - The path of the note.
+     * @param {string} content - The content of the note to back up.
+     * @returns The path of the backup file.
+     */
+    async create(folder: string, runId: string, path: string, content: string): Promise<string> {
+        const id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+        const sessionFolder = `${folder}/${runId}`;
+        for (const folderPath of [folder, sessionFolder]) {
+            if (!(await this.adapter.exists(folderPath))) {
+                await this.adapter.mkdir(folderPath);
+            }
+        }
+
+        const backupPath = `${sessionFolder}/${id}.bak`;
+        await this.adapter.write(backupPath, content);
+        this.entries.set(id, { id, path, backupPath, runId, created: new Date().toISOString() });
+        await this.saveIndex(folder);
+        return backupPath;
+    }
+
+    /**
+     * Reads a backup.
+     *
+     * @param {string} backupPath - The path of the backup file.
+     * @returns The content of the note when it was backed up.
+     */
+    async read(backupPath: string): Promise<string> {
+        return this.adapter.read(backupPath);
+    }
+
+    /**
+     * Deletes a backup and its entry, then its session folder if it is empty.
+     *
+     * @param {string} backupPath - The path of the backup file.
+     */
+    async remove(backupPath: string) {
+        const entry = this.find(backupPath);
+        if (!entry) return;
+
+        if (await this.adapter.exists(backupPath)) {
+            await this.adapter.remove(backupPath);
+        }
+        this.entries.delete(entry.id);
+        await this.removeFolderIfEmpty(backupPath.substring(0, backupPath.lastIndexOf('/')));
+        await this.saveIndex(this.getFolder(backupPath));
+    }
+
+    /**
+     * Updates the note paths of the backups, after notes were renamed or moved.
+     *
+     * @param {(path: string) => string | null} renamePath - Returns the new path of a note, or null if it did not move.
+     */
+    async renameNotes(renamePath: (path: string) => string | null) {
+        const changedFolders = new Set<string>();
+        this.entries.forEach(entry => {
+            const newPath = renamePath(entry.path);
+            if (newPath !== null) {
+                entry.path = newPath;
+                changedFolders.add(this.getFolder(entry.backupPath));
+            }
+        });
+        for (const folder of changedFolders) {
+            await this.saveIndex(folder);
+        }
+    }
+
+    /**
+     * Flags the backups of deleted notes in the index. The backups themselves are kept.
+     *
+     * @param {(path: string) => boolean} isDeleted - Whether a note path was deleted.
+     */
+    async markDeleted(isDeleted: (path: string) => boolean) {
+        const changedFolders = new Set<string>();
+        this.entries.forEach(entry => {
+            if (!entry.deleted && isDeleted(entry.path)) {
+                entry.deleted = true;
+                changedFolders.add(this.getFolder(entry.backupPath));
+            }
+        });
+        for (const folder of changedFolders) {
+            await this.saveIndex(folder);
+        }
+    }
+
+    /**
+     * Deletes every backup and index, in every folder.
+     */
+    async clear() {
+        for (const entry of this.entries.values()) {
+            if (await this.adapter.exists(entry.backupPath)) {
+                await this.adapter.remove(entry.backupPath);
+            }
+            await this.removeFolderIfEmpty(entry.backupPath.substring(0, entry.backupPath.lastIndexOf('/')));
+        }
+        this.entries.clear();
+        for (const folder of this.folders) {
+            await this.saveIndex(folder);
+        }
+    }
+
+    /**
+     * Finds the folder of `folders` holding a backup.
+     *
+     * @param {string} backupPath - The path of the backup file.
+     * @returns The folder.
+     */
+    getFolder(backupPath: string): string {
+        return this.folders.find(folder => backupPath.startsWith(folder + '/')) ?? backupPath.substring(0, backupPath.indexOf('/'));
+    }
+
+    /**
+     * Writes the index of a folder, or deletes it when the folder holds no backup.
+     *
+     * @param {string} folder - The folder, one of `folders`.
+     */
+    async saveIndex(folder: string) {
+        const indexPath = `${folder}/${BACKUP_INDEX_FILE}`;
+        const backups = [...this.entries.values()].filter(entry => this.getFolder(entry.backupPath) === folder);
+        if (backups.length > 0) {
+            await this.adapter.write(indexPath, JSON.stringify({ version: BACKUP_INDEX_VERSION, backups }, null, 2));
+        } else if (await this.adapter.exists(indexPath)) {
+            await this.adapter.remove(indexPath);
+        }
+    }
+
+    /**
+     * Deletes a folder if there are no files or folders within it.
+     *
+     * @param {string} folderPath - The path of the folder.
+     */
+    async removeFolderIfEmpty(folderPath: string) {
+        if (!(await this.adapter.exists(folderPath))) return;
+        const contents = await this.adapter.list(folderPath);
+        if (contents.files.length === 0 && contents.folders.length === 0) {
+            await this.adapter.rmdir(folderPath, false);
+        }
+    }
+}
+
+/**
+ * A hunk of a diff: the tokens of the old sequence from `start` to `end` (exclusive) are replaced by `tokens`.
+ */
+interface DiffHunk {
+    start: number;
+    end: number;
+    tokens: string[];
+}
+
+/**
+ * Token-level diff and three-way merge, used to revert links while keeping the edits made after a run.
+ * Text is split into runs of whitespace and runs of other characters, so that an edit elsewhere on a line
+ * does not touch a link on the same line.
+ */
+export class TextDiff {
+    // Beyond this many token edits, texts are considered unrelated and a merge reports a conflict. The trace of the
+    // Myers algorithm grows with the square of the edit distance, so this keeps it to a few megabytes.
+    static readonly MAX_EDIT_DISTANCE = 2000;
+
+    /**
+     * Splits text into tokens for diffing.
+     *
+     * @param {string} text - The text to split.
+     * @returns The tokens, which join back into the text.
+     */
+    static tokenize(text: string): string[] {
+        return text.match(/\s+|\S+/g) ?? [];
+    }
+
+    /**
+     * Computes the shortest edit script between two token sequences with the Myers algorithm.
+     *
+     * @param {string[]} a - The old tokens.
+     * @param {string[]} b - The new tokens.
+     * @returns The hunks turning `a` into `b`, in order, or null if the sequences are too different.
+     */
+    static diff(a: string[], b: string[]): DiffHunk[] | null {
+        // Common prefixes and suffixes are matched directly.
+        let prefix = 0;
+        while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+        let suffix = 0;
+        while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+
+        const n = a.length - prefix - suffix;
+        const m = b.length - prefix - suffix;
+        const max = Math.min(n + m, TextDiff.MAX_EDIT_DISTANCE);
+        const offset = max + 1;
+        const v = new Int32Array(2 * max + 3);
+        const trace: Int32Array[] = []; // The furthest x on each diagonal k in [-d, d], before step d.
+
+        let found = n === 0 && m === 0;
+        let distance = 0;
+        for (let d = 0; d <= max && !found; d++) {
+            trace.push(v.slice(offset - d, offset + d + 1));
+            for (let k = -d; k <= d; k += 2) {
+                let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+                let y = x - k;
+                while (x < n && y < m && a[prefix + x] === b[prefix + y]) {
+                    x++;
+                    y++;
+                }
+                v[offset + k] = x;
+                if (x >= n && y >= m) {
+                    found = true;
+                    distance = d;
+                    break;
+                }
+            }
+        }
+        if (!found) return null;
+
+        // Walk back through the trace, collecting the matched pairs of tokens.
+        const matches: [number, number][] = [];
+        let x = n;
+        let y = m;
+        for (let d = distance; d > 0; d--) {
+            const previous = trace[d];
+            const k = x - y;
+            const previousK = k === -d || (k !== d && previous[k - 1 + d] < previous[k + 1 + d]) ? k + 1 : k - 1;
+            const previousX = previous[previousK + d];
+            const previousY = previousX - previousK;
+            const snakeStartX = previousK === k + 1 ? previousX : previousX + 1;
+            while (x > snakeStartX) {
+                x--;
+                y--;
+                matches.push([prefix + x, prefix + y]);
+            }
+            x = previousX;
+            y = previousY;
+        }
+        while (x > 0) {
+            x--;
+            y--;
+            matches.push([prefix + x, prefix + y]);
+        }
+        matches.reverse();
+        for (let i = 0; i < suffix; i++) {
+            matches.push([a.length - suffix + i, b.length - suffix + i]);
+        }
+
+        // The hunks are the gaps between matched tokens; the prefix is matched implicitly.
+        const hunks: DiffHunk[] = [];
+        let nextA = prefix;
+        let nextB = prefix;
+        [...matches, [a.length, b.length] as [number, number]].forEach(([matchA, matchB]) => {
+            if (matchA > nextA || matchB > nextB) {
+                hunks.push({ start: nextA, end: matchA, tokens: b.slice(nextB, matchB) });
+            }
+            nextA = matchA + 1;
+            nextB = matchB + 1;
+        });
+        return hunks;
+    }
+
+    /**
+     * Maps a range of characters of the old text of a diff to the new text.
+     *
+     * @param {string[]} oldTokens - The tokens of the old text.
+     * @param {DiffHunk[]} hunks - The hunks turning the old tokens into the new ones.
+     * @param {number} start - The start of the range in the old text.
+     * @param {number} end - The end of the range in the old text (exclusive).
+     * @returns The start of the range in the new text, or null if a hunk changes the range or inserts text inside it.
+     */
+    static mapRange(oldTokens: string[], hunks: DiffHunk[], start: number, end: number): number | null {
+        let shift = 0;
+        let tokenIndex = 0;
+        let position = 0; // The offset of `oldTokens[tokenIndex]`.
+        for (const hunk of hunks) {
+            while (tokenIndex < hunk.start) position += oldTokens[tokenIndex++].length;
+            const hunkStart = position;
+            while (tokenIndex < hunk.end) position += oldTokens[tokenIndex++].length;
+            const hunkEnd = position;
+
+            if (hunkEnd <= start) {
+                shift += hunk.tokens.join('').length - (hunkEnd - hunkStart);
+            } else if (hunkStart >= end) {
+                break;
+            } else {
+                return null;
+            }
+        }
+        return start + shift;
+    }
+
+    /**
+     * Merges the changes from `base` to `ours` and from `base` to `theirs`.
+     * Hunks from both sides that overlap form one region, as do insertions at the same position; an insertion next
+     * to a change from the other side is applied before it. A region changed on one side only takes that side's
+     * version, and a region changed identically on both sides is merged once. Any other region is a conflict.
+     *
+     * @param {string} base - The common ancestor.
+     * @param {string} ours - The first descendant, whose line numbers are used to report conflicts.
+     * @param {string} theirs - The second descendant.
+     * @returns The merged text, or null with the conflicts if the merge is not clean.
+     */
+    static merge(base: string, ours: string, theirs: string): { content: string | null, conflicts: MergeConflict[] } {
+        const baseTokens = TextDiff.tokenize(base);
+        const ourTokens = TextDiff.tokenize(ours);
+        const ourHunks = TextDiff.diff(baseTokens, ourTokens);
+        const theirHunks = TextDiff.diff(baseTokens, TextDiff.tokenize(theirs));
+        if (!ourHunks || !theirHunks) {
+            return { content: null, conflicts: [{ lineNumber: 1, baseText: base, currentText: ours, revertedText: theirs }] };
+        }
+
+        // Sort the hunks of both sides by position, and group those that overlap.
+        const tagged = [
+            ...ourHunks.map(hunk => ({ hunk, ours: true })),
+            ...theirHunks.map(hunk => ({ hunk, ours: false })),
+        ].sort((first, second) => first.hunk.start - second.hunk.start || first.hunk.end - second.hunk.end);
+        const regions: { start: number, end: number, hunks: typeof tagged }[] = [];
+        tagged.forEach(entry => {
+            const last = regions[regions.length - 1];
+            const sameInsertionPoint = last && last.start === last.end && entry.hunk.start === last.start && entry.hunk.end === last.end;
+            if (last && (entry.hunk.start < last.end || sameInsertionPoint)) {
+                last.end = Math.max(last.end, entry.hunk.end);
+                last.hunks.push(entry);
+            } else {
+                regions.push({ start: entry.hunk.start, end: entry.hunk.end, hunks: [entry] });
+            }
+        });
+
+        // Rebuilds one side's version of a region of the base.
+        const sideText = (region: typeof regions[number], ours: boolean) => {
+            let text = '';
+            let cursor = region.start;
+            region.hunks.filter(entry => entry.ours === ours).forEach(({ hunk }) => {
+                text += baseTokens.slice(cursor, hunk.start).join('') + hunk.tokens.join('');
+                cursor = hunk.end;
+            });
+            return text + baseTokens.slice(cursor, region.end).join('');
+        };
+
+        let merged = '';
+        let cursor = 0;
+        let ourShift = 0; // Offset of the current region in `ours`, relative to the base, in tokens.
+        const conflicts: MergeConflict[] = [];
+        regions.forEach(region => {
+            merged += baseTokens.slice(cursor, region.start).join('');
+            const ourText = sideText(region, true);
+            const theirText = sideText(region, false);
+            const changedByUs = region.hunks.some(entry => entry.ours);
+            const changedByThem = region.hunks.some(entry => !entry.ours);
+
+            if (!changedByThem || ourText === theirText) {
+                merged += ourText;
+            } else if (!changedByUs) {
+                merged += theirText;
+            } else {
+                const ourStart = region.start + ourShift;
+                conflicts.push({
+                    lineNumber: ourTokens.slice(0, ourStart).join('').split('\n').length,
+                    baseText: baseTokens.slice(region.start, region.end).join(''),
+                    currentText: ourText,
+                    revertedText: theirText,
+                });
+            }
+
+            ourShift += region.hunks.filter(entry => entry.ours)
+                .reduce((shift, { hunk }) => shift + hunk.tokens.length - (hunk.end - hunk.start), 0);
+            cursor = region.end;
+        });
+        merged += baseTokens.slice(cursor).join('');
+
+        return conflicts.length > 0 ? { content: null, conflicts } : { content: merged, conflicts };
+    }
+}
+
+/**
+ * Shows the regions of notes that could not be reverted because they were edited where the plugin added links.
+ * Each note can be opened to resolve the conflicts by hand, or restored from its backup, discarding the later edits.
+ */
+class RevertConflictModal extends Modal {
+    plugin: TitleMatchLinker;
+    conflictedFiles: { file: TFile, conflicts: MergeConflict[] }[];
+
+    /**
+     * Constructs a revert conflict modal.
+     *
+     * @param {App} app - The main app instance.
+     * @param {TitleMatchLinker} plugin - The plugin instance, used to restore backups on request.
+     * @param {Array} conflictedFiles - The notes that were not reverted, with their conflicts.
+     */
+    constructor(app: App, plugin: TitleMatchLinker, conflictedFiles: { file: TFile, conflicts: MergeConflict[] }[]) {
+        super(app);
+        this.plugin = plugin;
+        this.conflictedFiles = conflictedFiles;
+    }
+
+    /**
+     * Sets up the modal's content when it's opened.
+     */
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        contentEl.createEl('h2', { text: 'Revert Conflicts' });
+        contentEl.createEl('p', { text: 'These notes were edited where links were added, so reverting them would lose your edits. They were left unchanged.' });
+
+        const listEl = contentEl.createDiv({ attr: { style: 'max-height: 60vh; overflow-y: auto;' } });
+        this.conflictedFiles.forEach(({ file, conflicts }) => {
+            listEl.createEl('h3', { text: file.path });
+            conflicts.forEach(conflict => {
+                listEl.createEl('p', { text: `Line ${conflict.lineNumber}` });
+                listEl.createEl('pre', { text: `Current:\n${conflict.currentText}\n\nAfter revert:\n${conflict.revertedText}` });
+            });
+
+            listEl.createEl('button', { text: 'Open Note' }).addEventListener('click', () => {
+                this.app.workspace.getLeaf(false).openFile(file);
+                this.close();
+            });
+            listEl.createEl('button', { text: 'Restore Backup Anyway', cls: 'mod-warning' }).addEventListener('click', async () => {
+                if (await this.plugin.revertSingleNote(file, true)) {
+                    this.conflictedFiles = this.conflictedFiles.filter(entry => entry.file !== file);
+                    if (this.conflictedFiles.length === 0) {
+                        this.close();
+                    } else {
+                        this.onOpen();
+                    }
+                }
+            });
+        });
+    }
+
+    /**
+     * Cleans up the modal's content when it's closed.
+     */
+    onClose() {
+        this.contentEl.empty();
+    }
+}
+
+/**
+ * A workspace view listing the notes with pending changes, and showing each one side by side with its backup.
+ * Lines that differ are highlighted, with the inserted text marked within them. Each note can be accepted or
+ * reverted from the view, through the same flows as the file menu.
+ */
+class LinkDiffView extends ItemView {
+    plugin: TitleMatchLinker;
+    selectedBackupPath: string | null = null; // The backup of the note shown in the diff pane, unique across sessions.
+    static readonly CONTEXT_LINES = 3; // Unchanged lines shown around each change.
+
+    constructor(leaf: WorkspaceLeaf, plugin: TitleMatchLinker) {
+        super(leaf);
+        this.plugin = plugin;
+    }
+
+    getViewType(): string {
+        return LINK_DIFF_VIEW_TYPE;
+    }
+
+    getDisplayText(): string {
+        return 'Linked Notes';
+    }
+
+    getIcon(): string {
+        return 'links-coming-in';
+    }
+
+    /**
+     * Renders the view when it's opened.
+     */
+    async onOpen() {
+        await this.refresh();
+    }
+
+    /**
+     * Renders the file list and the diff of the selected note from the pending changes in the run manifests.
+     */
+    async refresh() {
+        const container = this.containerEl.children[1] as HTMLElement;
+        container.empty();
+
+        const pendingRecords = this.plugin.getPendingRecords();
+        if (pendingRecords.length === 0) {
+            container.createEl('p', { text: 'No linked notes are waiting for review.' });
+            return;
+        }
+        if (!pendingRecords.some(({ record }) => record.backupPath === this.selectedBackupPath)) {
+            this.selectedBackupPath = pendingRecords[0].record.backupPath;
+        }
+
+        const layout = container.createDiv({ attr: { style: 'display: flex; height: 100%; gap: 1em;' } });
+
+        // File list sidebar.
+        const sidebar = layout.createDiv({ attr: { style: 'flex: 0 0 220px; overflow-y: auto; border-right: 1px solid var(--background-modifier-border);' } });
+        pendingRecords.forEach(({ manifest, record }) => {
+            const item = sidebar.createDiv({
+                text: `${record.path} (${record.links.length})`,
+                attr: {
+                    style: `padding: 4px; cursor: pointer; ${record.backupPath === this.selectedBackupPath ? 'background-color: var(--background-modifier-hover); font-weight: bold;' : ''}`,
+                    title: `Session ${new Date(manifest.timestamp).toLocaleString()}`,
+                },
+            });
+            item.addEventListener('click', () => {
+                this.selectedBackupPath = record.backupPath;
+                this.refresh();
+            });
+        });
+
+        const pane = layout.createDiv({ attr: { style: 'flex: 1; overflow: auto;' } });
+        const selected = pendingRecords.find(({ record }) => record.backupPath === this.selectedBackupPath);
+        if (selected) {
+            await this.renderFile(pane, selected.manifest, selected.record);
+        }
+    }
+
+    /**
+     * Renders the header, the action buttons, and the side-by-side diff of one note.
+     *
+     * @param {HTMLElement} pane - The element to render into.
+     * @param {RunManifest} manifest - The session that changed the note.
+     * @param {ManifestFileRecord} record - The pending record of the note.
+     */
+    async renderFile(pane: HTMLElement, manifest: RunManifest, record: ManifestFileRecord) {
+        const file = this.app.vault.getAbstractFileByPath(record.path);
+        pane.createEl('h3', { text: record.path });
+        if (!(file instanceof TFile) || !this.plugin.hasBackup(record.backupPath)) {
+            pane.createEl('p', { text: 'The note or its backup no longer exists.' });
+            return;
+        }
+
+        const actions = pane.createDiv();
+        actions.createEl('button', { text: 'Accept', cls: 'mod-cta' }).addEventListener('click', async () => {
+            await this.plugin.cleanupAfterReversionOrAcceptance(record.backupPath, record.changeLogPath ?? '');
+            new Notice(`Changes accepted for "${file.name}". Cleanup completed.`);
+            await this.refresh();
+        });
+        // Only the latest session that changed the note can be reverted (see `findLaterSessions`).
+        const revertButton = actions.createEl('button', { text: 'Revert' });
+        if (this.plugin.findLaterSessions(manifest, record).length > 0) {
+            revertButton.disabled = true;
+            revertButton.title = 'A later session changed this note. Revert or accept it first.';
+        }
+        revertButton.addEventListener('click', async () => {
+            if (await this.plugin.revertSingleNote(file)) {
+                new Notice(`Changes reverted for "${file.name}".`);
+            }
+            await this.refresh();
+        });
+        actions.createEl('button', { text: 'Open Note' }).addEventListener('click', () => {
+            this.app.workspace.getLeaf(false).openFile(file);
+        });
+
+        const backupLines = (await this.plugin.readBackup(record.backupPath)).split('\n');
+        const currentLines = (await this.app.vault.read(file)).split('\n');
+        const hunks = TextDiff.diff(backupLines, currentLines);
+        if (!hunks) {
+            pane.createEl('p', { text: 'The note is too different from its backup to be compared.' });
+            return;
+        }
+        if (hunks.length === 0) {
+            pane.createEl('p', { text: 'The note is identical to its backup.' });
+            return;
+        }
+
+        const table = pane.createEl('table', { attr: { style: 'width: 100%; border-collapse: collapse; font-family: var(--font-monospace); font-size: 0.85em; table-layout: fixed;' } });
+        const headerRow = table.createEl('tr');
+        headerRow.createEl('th', { text: 'Backup' });
+        headerRow.createEl('th', { text: 'Current' });
+
+        // Unchanged lines between hunks are collapsed, except for a few lines of context.
+        let backupIndex = 0;
+        let currentIndex = 0;
+        const addUnchanged = (count: number, isFirst: boolean, isLast: boolean) => {
+            const context = LinkDiffView.CONTEXT_LINES;
+            const shownBefore = isFirst ? 0 : Math.min(context, count);
+            const shownAfter = isLast ? 0 : Math.min(context, count - shownBefore);
+            for (let i = 0; i < count; i++) {
+                if (i === shownBefore && count - shownBefore - shownAfter > 0) {
+                    const skipped = count - shownBefore - shownAfter;
+                    table.createEl('tr').createEl('td', { text: `… ${skipped} unchanged lines`, attr: { colspan: '2', style: 'color: var(--text-muted); text-align: center;' } });
+                    i += skipped - 1;
+                    backupIndex += skipped;
+                    currentIndex += skipped;
+                    continue;
+                }
+                this.addRow(table, backupLines[backupIndex++], currentLines[currentIndex++], false);
+            }
+        };
+
+        hunks.forEach((hunk, hunkIndex) => {
+            addUnchanged(hunk.start - backupIndex, hunkIndex === 0, false);
+            const removed = backupLines.slice(hunk.start, hunk.end);
+            for (let i = 0; i < Math.max(removed.length, hunk.tokens.length); i++) {
+                this.addRow(table, removed[i], hunk.tokens[i], true);
+            }
+            backupIndex = hunk.end;
+            currentIndex += hunk.tokens.length;
+        });
+        addUnchanged(backupLines.length - backupIndex, false, true);
+    }
+
+    /**
+     * Adds a row of the side-by-side diff. In changed rows, the text that differs between the two lines is marked.
+     *
+     * @param {HTMLElement} table - The table to add the row to.
+     * @param {string | undefined} backupLine - The line from the backup, if any.
+     * @param {string | undefined} currentLine - The line from the current note, if any.
+     * @param {boolean} changed - Whether the lines differ.
+     */
+    addRow(table: HTMLElement, backupLine: string | undefined, currentLine: string | undefined, changed: boolean) {
+        const row = table.createEl('tr');
+        const cellStyle = 'white-space: pre-wrap; word-break: break-word; vertical-align: top; padding: 0 4px;';
+        const backupCell = row.createEl('td', { attr: { style: cellStyle + (changed && backupLine !== undefined ? ' background-color: rgba(var(--color-red-rgb), 0.1);' : '') } });
+        const currentCell = row.createEl('td', { attr: { style: cellStyle + (changed && currentLine !== undefined ? ' background-color: rgba(var(--color-green-rgb), 0.1);' : '') } });
+
+        if (!changed || backupLine === undefined || currentLine === undefined) {
+            backupCell.setText(backupLine ?? '');
+            currentCell.setText(currentLine ?? '');
+            return;
+        }
+
+        // Mark the tokens that differ on each side.
+        const backupTokens = TextDiff.tokenize(backupLine);
+        const hunks = TextDiff.diff(backupTokens, TextDiff.tokenize(currentLine)) ?? [{ start: 0, end: backupTokens.length, tokens: TextDiff.tokenize(currentLine) }];
+        let cursor = 0;
+        hunks.forEach(hunk => {
+            backupCell.appendText(backupTokens.slice(cursor, hunk.start).join(''));
+            currentCell.appendText(backupTokens.slice(cursor, hunk.start).join(''));
+            if (hunk.end > hunk.start) {
+                backupCell.createEl('del', { text: backupTokens.slice(hunk.start, hunk.end).join('') });
+            }
+            if (hunk.tokens.length > 0) {
+                currentCell.createEl('mark', { text: hunk.tokens.join('') });
+            }
+            cursor = hunk.end;
+        });
+        const rest = backupTokens.slice(cursor).join('');
+        backupCell.appendText(rest);
+        currentCell.appendText(rest);
+    }
+
+    async onClose() {
+        this.containerEl.children[1].empty();
+    }
+}
+
+/**
+ * Custom modal class for displaying progress information during long-running operations.
  * It supports showing the total number of notes processed, a progress bar, and an estimated time to completion.
  */
-class ProgressModal extends Modal {
+class ProgressModal extends Modal {
+    totalNotes: number;
+    processedNotes = 0;
+    progressBar: HTMLElement;
+    statusText: HTMLElement;
+    operationType: string; // Indicates the type of operation ('linkCreation' or 'reversion').
+    startTime: Date; // Tracks the start time for estimating time remaining.
+    estimatedTimeText: HTMLElement; // Displays estimated time remaining to the user.
+
+    constructor(app: App, totalNotes: number, operationType: string) {
+        super(app);
+        this.totalNotes = totalNotes;
+        this.operationType = operationType;
+        this.startTime = new Date(); // Initialize the start time upon creation.
+    }
+
+    /**
+     * Sets up the modal's UI elements when it's opened.
+     */
+    onOpen() {
+        const contentEl = this.contentEl;
+        contentEl.empty(); // Clear existing content.
+
+        // Dynamic title based on operation type.
+        const titleText = this.operationType === 'linkCreation' ? 'Link Creation Progress' : 
+                          (this.operationType === 'acceptance' ? 'Link Acceptance Progress' : 'Reversion Progress');
+
+        contentEl.createEl('h2', { text: titleText });
+
+        // Progress bar setup.
+        const progressContainer = contentEl.createEl('div', {
+            attr: { style: 'width: 100%; background-color: #ddd;' }
+        });
+        this.progressBar = progressContainer.createEl('div', {
+            attr: { style: 'height: 20px; width: 0%; background-color: #2196F3;' }
+        });
+
+        // Initializing status text.
+        this.statusText = contentEl.createEl('p', { text: 'Initializing...' });
+
+        // Element for displaying the estimated time remaining.
+        this.estimatedTimeText = contentEl.createEl('p', { text: 'Estimated time remaining: Calculating...' });
+
+        // Button to allow the modal to be closed while the process continues in the background.
+        const runInBackgroundButton = contentEl.createEl('button', { text: 'Run in Background' });
+        runInBackgroundButton.addEventListener('click', () => {
+            new Notice('Process will continue in the background.');
+            this.close();
+        });
+    }
+
+    /**
+     * Updates the progress bar and text based on the number of notes processed.
+     * Calculates and displays the estimated time remaining until completion.
+     * 
+     * @param {string} noteName - The name of the currently processed note.
+     */
+    updateProgress(noteName: string) {
+        this.processedNotes++;
+        const progressPercentage = (this.processedNotes / this.totalNotes) * 100;
+        this.progressBar.style.width = `${progressPercentage}%`;
+        this.statusText.textContent = `Processing ${noteName} (${this.processedNotes}/${this.totalNotes})`;
+
+        // Calculate and update estimated time remaining.
+        const timeElapsed = (new Date().getTime() - this.startTime.getTime()) / 1000; // in seconds
+        const estimatedTotalTime = timeElapsed / (this.processedNotes / this.totalNotes);
+        const estimatedTimeRemaining = estimatedTotalTime - timeElapsed;
+        const remainingMinutes = Math.floor(estimatedTimeRemaining / 60);
+        const remainingSeconds = Math.floor(estimatedTimeRemaining % 60);
+        this.estimatedTimeText.textContent = `Estimated time remaining: ${remainingMinutes} minutes, ${remainingSeconds} seconds`;
+    }
+
+    /**
+     * Finalizes the modal's display when the process is completed.
+     * Clears the estimated time text and closes the modal after a short delay.
+     */
+    completeProcess() {
+        this.statusText.textContent = 'Process completed.';
+        this.estimatedTimeText.textContent = 'All operations are finished.'; // Update to reflect completion status.
+        setTimeout(() => this.close(), 2000); // Close the modal after a 2-second delay.
+    }
+}
+
+
+
+
+/**
+ * A modal that provides options for link creation, reverting changes, and accepting all changes.
+ * It enables users to access core functionalities of the TitleMatchLinker plugin through a user interface.
+ * The modal dynamically updates its options based on the presence of backup files, 
+ * ensuring actions like revert and accept changes are only offered when applicable.
+ */
+class ActionModal extends Modal {
+    plugin: TitleMatchLinker;
+
+    constructor(app: App, plugin: TitleMatchLinker) {
+        super(app);
+        this.plugin = plugin;
+    }
+
+    /**
+     * Prepares and displays the modal's content when it's opened. This includes
+     * dynamically adding buttons for various actions based on the current state of backup files.
+     */
+    async onOpen() {
+        const { contentEl } = this;
+        contentEl.empty(); // Ensure the content is fresh on each open.
+
+        contentEl.createEl('h2', { text: 'Title Link Options' });
+
+        // Helper function for creating action buttons with associated descriptions and callbacks.
+        const createButtonWithDescription = (buttonText: string, descriptionText: string, onClickCallback: () => void) => {
+            const buttonWrapper = contentEl.createDiv({ cls: 'action-button-wrapper' });
+            const button = buttonWrapper.createEl('button', { text: buttonText, cls: 'mod-cta' });
+            button.addEventListener('click', () => {
+                try {
+                    onClickCallback();
+                } catch (error) {
+                    console.error(error);
+                    new Notice('An error occurred. Please check the console for more details.');
+                }
+            });
+            buttonWrapper.createEl('div', { text: descriptionText, cls: 'action-button-description' });
+        };
+
+        // Always include the option to initiate the link creation process.
+        createButtonWithDescription('Start Link Creation', 'Initiates the link creation process.', async () => {
+            if (await this.plugin.canProceedWithLinkCreation()) {
+                this.plugin.startLinkCreationProcess();
+            }
+            this.close();
+        });
+
+        // List the sessions, with their pending changes to revert or accept.
+        if (this.plugin.manifests.length > 0) {
+            createButtonWithDescription('Session History', 'Lists each run with the notes it changed, to revert or accept it on its own.', () => {
+                new SessionHistoryModal(this.app, this.plugin).open();
+                this.close();
+            });
+        }
+
+        // Dynamically add "Review Linked Notes", "Revert Changes" and "Accept All Changes" options if applicable.
+        const bakFilesExist = await this.plugin.doBakFilesExist();
+        if (bakFilesExist) {
+            createButtonWithDescription('Review Linked Notes', 'Compares each linked note with its backup, to accept or revert it.', async () => {
+                await this.plugin.activateDiffView();
+                this.close();
+            });
+
+            createButtonWithDescription('Revert Changes', 'Reverts all changes made by the plugin.', async () => {
+                await this.plugin.revertChanges();
+                this.close();
+            });
+
+            createButtonWithDescription('Accept All Changes', 'Accepts all changes and deletes backup files. This action is irreversible.', async () => {
+                await this.plugin.acceptAllChanges();
+                this.close();
+            });
+        }
+    }
+
+    /**
+     * Cleans up the modal's content when it's closed to ensure a fresh state on next open.
+     */
+    onClose() {
+        this.contentEl.empty();
+    }
+}
+
+
+/**
+ * Custom modal for displaying a confirmation dialog with "Confirm" and "Cancel" buttons.
+ * Allows executing different actions based on the user's choice.
+ */
+class ConfirmationModal extends Modal {
+    message: string;
+    onConfirm: () => void;
+    onCancel?: () => void;
+
+    /**
+     * Constructs a confirmation modal.
+     * 
+     * @param {App} app - The main app instance.
+     * @param {string} message - The message to display in the modal.
+     * @param {() => void} onConfirm - Callback to execute when "Confirm" is clicked.
+     * @param {() => void} [onCancel] - Optional callback to execute when "Cancel" is clicked.
+     */
+    constructor(app: App, message: string, onConfirm: () => void, onCancel?: () => void) {
+        super(app);
+        this.message = message;
+        this.onConfirm = onConfirm;
+        this.onCancel = onCancel;
+    }
+
+    /**
+     * Sets up the modal's content when it's opened.
+     */
+    onOpen() {
+        this.contentEl.createEl('p', { text: this.message });
+
+        // Creating the "Confirm" button with a primary call-to-action style.
+        this.contentEl.createEl('button', {
+            text: 'Confirm',
+            cls: 'mod-cta',
+            type: 'button'
+        }).addEventListener('click', () => {
+            this.onConfirm();
+            this.close();
+        });
+
+        // Creating the "Cancel" button with a default style.
+        this.contentEl.createEl('button', {
+            text: 'Cancel',
+            type: 'button'
+        }).addEventListener('click', () => {
+            if (this.onCancel) {
+                this.onCancel();
+            }
+            this.close();
+        });
+    }
+
+    /**
+     * Cleans up the modal's content when it's closed to ensure a fresh state on the next open.
+     */
+    onClose() {
+        this.contentEl.empty();
+    }
+}
+
+/**
+ * A modal listing the titles that appear in an unusually large share of the notes, asking which of them should still be linked.
+ * Titles are skipped unless checked. Skipped titles can optionally be added to the ignored titles list for future runs.
+ */
+class CommonTitlesModal extends Modal {
+    plugin: TitleMatchLinker;
+    commonTitles: { title: string, noteCount: number }[];
     totalNotes: number;
-    processedNotes = 0;
-    progressBar: HTMLElement;
-    statusText: HTMLElement;
-    operationType: string; // Indicates the type of operation ('linkCreation' or 'reversion').
-    startTime: Date; // Tracks the start time for estimating time remaining.
-    estimatedTimeText: HTMLElement; // Displays estimated time remaining to the user.
+    onConfirm: (skippedTitles: string[]) => void;
+    onCancel: () => void;
+    private settled = false; // Whether one of the callbacks has already been called.
 
-    constructor(app: App, totalNotes: number, operationType: string) {
+    /**
+     * Constructs a common titles modal.
+     *
+     * @param {App} app - The main app instance.
+     * @param {TitleMatchLinker} plugin - The plugin instance, used to update the ignored titles list.
+     * @param {Array} commonTitles - The common titles and the number of notes each appears in.
+     * @param {number} totalNotes - The number of notes in the run.
+     * @param {(skippedTitles: string[]) => void} onConfirm - Callback receiving the titles that must not be linked.
+     * @param {() => void} onCancel - Callback to execute when the run is cancelled, including when the modal is dismissed.
+     */
+    constructor(app: App, plugin: TitleMatchLinker, commonTitles: { title: string, noteCount: number }[], totalNotes: number, onConfirm: (skippedTitles: string[]) => void, onCancel: () => void) {
         super(app);
+        this.plugin = plugin;
+        this.commonTitles = commonTitles;
         this.totalNotes = totalNotes;
-        this.operationType = operationType;
-        this.startTime = new Date(); // Initialize the start time upon creation.
+        this.onConfirm = onConfirm;
+        this.onCancel = onCancel;
     }
 
     /**
-     * Sets up the modal's UI elements when it's opened.
+     * Sets up the modal's content when it's opened.
      */
     onOpen() {
-        const contentEl = this.contentEl;
-        contentEl.empty(); // Clear existing content.
+        const { contentEl } = this;
+        contentEl.empty();
 
-        // Dynamic title based on operation type.
-        const titleText = this.operationType === 'linkCreation' ? 'Link Creation Progress' : 
-                          (this.operationType === 'acceptance' ? 'Link Acceptance Progress' : 'Reversion Progress');
+        contentEl.createEl('h2', { text: 'Common Titles Detected' });
+        contentEl.createEl('p', { text: 'These titles appear in an unusually large number of notes and may produce unwanted links. Check the titles that should still be linked.' });
 
-        contentEl.createEl('h2', { text: titleText });
+        // One checkbox per title, unchecked by default.
+        const checkboxes = this.commonTitles.map(({ title, noteCount }) => {
+            const row = contentEl.createDiv();
+            const checkbox = row.createEl('input', { type: 'checkbox' });
+            row.createEl('span', { text: ` ${title} (${noteCount} of ${this.totalNotes} notes)` });
+            return { title, checkbox };
+        });
 
-        // Progress bar setup.
-        const progressContainer = contentEl.createEl('div', {
-            attr: { style: 'width: 100%; background-color: #ddd;' }
+        const rememberRow = contentEl.createDiv();
+        const rememberCheckbox = rememberRow.createEl('input', { type: 'checkbox' });
+        rememberRow.createEl('span', { text: ' Add the unchecked titles to the ignored titles list.' });
+
+        contentEl.createEl('button', {
+            text: 'Continue',
+            cls: 'mod-cta',
+        }).addEventListener('click', () => {
+            const skippedTitles = checkboxes.filter(({ checkbox }) => !checkbox.checked).map(({ title }) => title);
+            if (rememberCheckbox.checked && skippedTitles.length > 0) {
+                this.rememberSkippedTitles(skippedTitles);
+            }
+            this.settled = true;
+            this.onConfirm(skippedTitles);
+            this.close();
         });
-        this.progressBar = progressContainer.createEl('div', {
-            attr: { style: 'height: 20px; width: 0%; background-color: #2196F3;' }
+
+        contentEl.createEl('button', {
+            text: 'Cancel',
+        }).addEventListener('click', () => this.close());
+    }
+
+    /**
+     * Adds the skipped titles to the plugin's ignored titles list.
+     *
+     * @param {string[]} skippedTitles - The titles to ignore in future runs.
+     */
+    async rememberSkippedTitles(skippedTitles: string[]) {
+        this.plugin.settings.ignoredTitles = [...new Set([...this.plugin.settings.ignoredTitles, ...skippedTitles])];
+        await this.plugin.saveSettings();
+    }
+
+    /**
+     * Treats dismissing the modal as cancelling the run, and cleans up its content.
+     */
+    onClose() {
+        this.contentEl.empty();
+        if (!this.settled) {
+            this.settled = true;
+            this.onCancel();
+        }
+    }
+}
+
+/**
+ * Lists the links proposed by a run, with the text around each one, so that they can be accepted or rejected
+ * one by one, for a whole target note, or for a whole file before anything is written. Every link starts accepted.
+ * Keyboard: ↑/↓ (or k/j) move between links, Space toggles the selected link, A/R accept or reject it,
+ * Shift+A/Shift+R do the same for every link to its target, Alt+A/Alt+R for every link in its file,
+ * and Ctrl/Cmd+Enter writes the accepted links.
+ */
+class LinkReviewModal extends Modal {
+    plugin: TitleMatchLinker;
+    proposals: ProposedChange[];
+    onConfirm: (approvedProposals: ProposedChange[]) => void;
+    onCancel: () => void;
+    private settled = false; // Whether one of the callbacks has already been called.
+    private accepted: boolean[][]; // Decision for each insertion of each proposal.
+    private rows: { proposalIndex: number, insertionIndex: number, rowEl: HTMLElement, checkbox: HTMLInputElement }[] = [];
+    private selectedRow = 0;
+    private summaryEl: HTMLElement;
+
+    /**
+     * Constructs a link review modal.
+     *
+     * @param {App} app - The main app instance.
+     * @param {TitleMatchLinker} plugin - The plugin instance, used to describe where each link is.
+     * @param {ProposedChange[]} proposals - The proposed links, grouped by note.
+     * @param {(approvedProposals: ProposedChange[]) => void} onConfirm - Callback receiving the notes with at least one accepted link,
+     *        each limited to its accepted links.
+     * @param {() => void} onCancel - Callback to execute when the review is cancelled, including when the modal is dismissed.
+     */
+    constructor(app: App, plugin: TitleMatchLinker, proposals: ProposedChange[], onConfirm: (approvedProposals: ProposedChange[]) => void, onCancel: () => void) {
+        super(app);
+        this.plugin = plugin;
+        this.proposals = proposals;
+        this.onConfirm = onConfirm;
+        this.onCancel = onCancel;
+        this.accepted = proposals.map(proposal => proposal.insertions.map(() => true));
+    }
+
+    /**
+     * Sets up the modal's content and keyboard shortcuts when it's opened.
+     */
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        this.modalEl.style.width = '80vw';
+
+        contentEl.createEl('h2', { text: 'Review Proposed Links' });
+        contentEl.createEl('p', { text: '↑/↓ select a link, Space toggles it, A/R accept or reject it, Shift+A/R every link to the same note, Alt+A/R every link in the file. Ctrl/Cmd+Enter writes the accepted links.' });
+        this.summaryEl = contentEl.createEl('p');
+
+        const listEl = contentEl.createDiv({ attr: { style: 'max-height: 60vh; overflow-y: auto;' } });
+        this.proposals.forEach((proposal, proposalIndex) => {
+            // File header, with buttons for every link in the file.
+            const headerEl = listEl.createDiv({ attr: { style: 'margin-top: 1em; font-weight: bold;' } });
+            headerEl.createSpan({ text: `${proposal.file.path} ` });
+            headerEl.createEl('button', { text: 'Accept file' }).addEventListener('click', () => this.setFile(proposalIndex, true));
+            headerEl.createEl('button', { text: 'Reject file' }).addEventListener('click', () => this.setFile(proposalIndex, false));
+
+            proposal.insertions.forEach((insertion, insertionIndex) => {
+                const rowEl = listEl.createDiv({ attr: { style: 'padding: 2px 4px; cursor: pointer;' } });
+                const checkbox = rowEl.createEl('input', { type: 'checkbox' });
+                checkbox.checked = true;
+                checkbox.addEventListener('change', () => this.setDecision(proposalIndex, insertionIndex, checkbox.checked));
+
+                // The line around the link, with the replaced text highlighted.
+                const { lineNumber, before, after } = this.plugin.describeInsertion(proposal.originalContent, insertion);
+                rowEl.createSpan({ text: ` Line ${lineNumber}: ${before}` });
+                rowEl.createEl('mark', { text: insertion.originalText });
+                rowEl.createSpan({ text: `${after} → ${insertion.linkText} ` });
+                rowEl.createEl('button', { text: 'Accept target' }).addEventListener('click', () => this.setTarget(insertion.targetPath, true));
+                rowEl.createEl('button', { text: 'Reject target' }).addEventListener('click', () => this.setTarget(insertion.targetPath, false));
+
+                const rowIndex = this.rows.length;
+                rowEl.addEventListener('click', () => this.select(rowIndex));
+                this.rows.push({ proposalIndex, insertionIndex, rowEl, checkbox });
+            });
         });
 
-        // Initializing status text.
-        this.statusText = contentEl.createEl('p', { text: 'Initializing...' });
+        contentEl.createEl('button', {
+            text: 'Write Accepted Links',
+            cls: 'mod-cta',
+        }).addEventListener('click', () => this.confirm());
 
-        // Element for displaying the estimated time remaining.
-        this.estimatedTimeText = contentEl.createEl('p', { text: 'Estimated time remaining: Calculating...' });
+        contentEl.createEl('button', {
+            text: 'Cancel',
+        }).addEventListener('click', () => this.close());
 
-        // Button to allow the modal to be closed while the process continues in the background.
-        const runInBackgroundButton = contentEl.createEl('button', { text: 'Run in Background' });
-        runInBackgroundButton.addEventListener('click', () => {
-            new Notice('Process will continue in the background.');
-            this.close();
+        // Keyboard navigation. Returning false prevents the default action of the key.
+        const currentRow = () => this.rows[this.selectedRow];
+        const currentTarget = () => this.proposals[currentRow().proposalIndex].insertions[currentRow().insertionIndex].targetPath;
+        this.scope.register([], 'ArrowDown', () => { this.select(this.selectedRow + 1); return false; });
+        this.scope.register([], 'j', () => { this.select(this.selectedRow + 1); return false; });
+        this.scope.register([], 'ArrowUp', () => { this.select(this.selectedRow - 1); return false; });
+        this.scope.register([], 'k', () => { this.select(this.selectedRow - 1); return false; });
+        this.scope.register([], ' ', () => {
+            const row = currentRow();
+            this.setDecision(row.proposalIndex, row.insertionIndex, !this.accepted[row.proposalIndex][row.insertionIndex]);
+            return false;
         });
+        [true, false].forEach(accept => {
+            const key = accept ? 'a' : 'r';
+            this.scope.register([], key, () => {
+                this.setDecision(currentRow().proposalIndex, currentRow().insertionIndex, accept);
+                this.select(this.selectedRow + 1);
+                return false;
+            });
+            this.scope.register(['Shift'], key, () => { this.setTarget(currentTarget(), accept); return false; });
+            this.scope.register(['Alt'], key, () => { this.setFile(currentRow().proposalIndex, accept); return false; });
+        });
+        this.scope.register(['Mod'], 'Enter', () => { this.confirm(); return false; });
+
+        this.select(0);
+        this.updateSummary();
     }
 
     /**
-     * Updates the progress bar and text based on the number of notes processed.
-     * Calculates and displays the estimated time remaining until completion.
-     * 
-     * @param {string} noteName - The name of the currently processed note.
+     * Moves the keyboard selection to the given row, keeping it within the list and in view.
+     *
+     * @param {number} rowIndex - The row to select.
      */
-    updateProgress(noteName: string) {
-        this.processedNotes++;
-        const progressPercentage = (this.processedNotes / this.totalNotes) * 100;
-        this.progressBar.style.width = `${progressPercentage}%`;
-        this.statusText.textContent = `Processing ${noteName} (${this.processedNotes}/${this.totalNotes})`;
+    select(rowIndex: number) {
+        if (this.rows.length === 0) return;
+        this.rows[this.selectedRow].rowEl.style.outline = '';
+        this.selectedRow = Math.max(0, Math.min(rowIndex, this.rows.length - 1));
+        const { rowEl } = this.rows[this.selectedRow];
+        rowEl.style.outline = '2px solid var(--interactive-accent)';
+        rowEl.scrollIntoView({ block: 'nearest' });
+    }
 
-        // Calculate and update estimated time remaining.
-        const timeElapsed = (new Date().getTime() - this.startTime.getTime()) / 1000; // in seconds
-        const estimatedTotalTime = timeElapsed / (this.processedNotes / this.totalNotes);
-        const estimatedTimeRemaining = estimatedTotalTime - timeElapsed;
-        const remainingMinutes = Math.floor(estimatedTimeRemaining / 60);
-        const remainingSeconds = Math.floor(estimatedTimeRemaining % 60);
-        this.estimatedTimeText.textContent = `Estimated time remaining: ${remainingMinutes} minutes, ${remainingSeconds} seconds`;
+    /**
+     * Accepts or rejects a single link.
+     *
+     * @param {number} proposalIndex - The note the link belongs to.
+     * @param {number} insertionIndex - The link within the note.
+     * @param {boolean} accept - Whether the link should be written.
+     */
+    setDecision(proposalIndex: number, insertionIndex: number, accept: boolean) {
+        this.accepted[proposalIndex][insertionIndex] = accept;
+        const row = this.rows.find(candidate => candidate.proposalIndex === proposalIndex && candidate.insertionIndex === insertionIndex);
+        if (row) {
+            row.checkbox.checked = accept;
+            row.rowEl.style.opacity = accept ? '' : '0.5';
+        }
+        this.updateSummary();
     }
 
     /**
-     * Finalizes the modal's display when the process is completed.
-     * Clears the estimated time text and closes the modal after a short delay.
+     * Accepts or rejects every link to the given note, in every file.
+     *
+     * @param {string} targetPath - The path of the target note.
+     * @param {boolean} accept - Whether the links should be written.
      */
-    completeProcess() {
-        this.statusText.textContent = 'Process completed.';
-        this.estimatedTimeText.textContent = 'All operations are finished.'; // Update to reflect completion status.
-        setTimeout(() => this.close(), 2000); // Close the modal after a 2-second delay.
+    setTarget(targetPath: string, accept: boolean) {
+        this.rows.forEach(({ proposalIndex, insertionIndex }) => {
+            if (this.proposals[proposalIndex].insertions[insertionIndex].targetPath === targetPath) {
+                this.setDecision(proposalIndex, insertionIndex, accept);
+            }
+        });
+    }
+
+    /**
+     * Accepts or rejects every link in one file.
+     *
+     * @param {number} proposalIndex - The note whose links should change.
+     * @param {boolean} accept - Whether the links should be written.
+     */
+    setFile(proposalIndex: number, accept: boolean) {
+        this.proposals[proposalIndex].insertions.forEach((insertion, insertionIndex) => this.setDecision(proposalIndex, insertionIndex, accept));
+    }
+
+    /**
+     * Shows how many links are currently accepted.
+     */
+    updateSummary() {
+        const total = this.rows.length;
+        const acceptedCount = this.accepted.reduce((count, decisions) => count + decisions.filter(Boolean).length, 0);
+        this.summaryEl?.setText(`${acceptedCount} of ${total} links accepted, in ${this.proposals.length} notes.`);
+    }
+
+    /**
+     * Passes the accepted links to the confirmation callback and closes the modal.
+     */
+    confirm() {
+        const approvedProposals = this.proposals
+            .map((proposal, proposalIndex) => ({
+                ...proposal,
+                insertions: proposal.insertions.filter((insertion, insertionIndex) => this.accepted[proposalIndex][insertionIndex]),
+            }))
+            .filter(proposal => proposal.insertions.length > 0);
+        this.settled = true;
+        this.onConfirm(approvedProposals);
+        this.close();
+    }
+
+    /**
+     * Treats dismissing the modal as cancelling the review, and cleans up its content.
+     */
+    onClose() {
+        this.contentEl.empty();
+        if (!this.settled) {
+            this.settled = true;
+            this.onCancel();
+        }
     }
 }
 
-
-
-
 /**
- * A modal that provides options for link creation, reverting changes, and accepting all changes.
- * It enables users to access core functionalities of the TitleMatchLinker plugin through a user interface.
- * The modal dynamically updates its options based on the presence of backup files, 
- * ensuring actions like revert and accept changes are only offered when applicable.
+ * Lists the links a run wrote to a note, with the text around each one, so that single links, or every link to
+ * one target, can be reverted without restoring the whole note.
  */
-class ActionModal extends Modal {
+class LinkRevertModal extends Modal {
     plugin: TitleMatchLinker;
+    manifest: RunManifest;
+    record: ManifestFileRecord;
 
-    constructor(app: App, plugin: TitleMatchLinker) {
+    /**
+     * Constructs a link revert modal.
+     *
+     * @param {App} app - The main app instance.
+     * @param {TitleMatchLinker} plugin - The plugin instance, which performs the reversion.
+     * @param {RunManifest} manifest - The manifest of the run that wrote the links.
+     * @param {ManifestFileRecord} record - The pending record of the note.
+     */
+    constructor(app: App, plugin: TitleMatchLinker, manifest: RunManifest, record: ManifestFileRecord) {
         super(app);
         this.plugin = plugin;
+        this.manifest = manifest;
+        this.record = record;
     }
 
     /**
-     * Prepares and displays the modal's content when it's opened. This includes
-     * dynamically adding buttons for various actions based on the current state of backup files.
+     * Sets up the modal's content when it's opened, and again after each reversion.
      */
     async onOpen() {
         const { contentEl } = this;
-        contentEl.empty(); // Ensure the content is fresh on each open.
+        contentEl.empty();
+        contentEl.createEl('h2', { text: 'Revert Title Match Links' });
 
-        contentEl.createEl('h2', { text: 'Title Link Options' });
+        if (this.record.status !== 'pending' || this.record.links.length === 0) {
+            contentEl.createEl('p', { text: 'No links from this run remain in the note.' });
+            return;
+        }
 
-        // Helper function for creating action buttons with associated descriptions and callbacks.
-        const createButtonWithDescription = (buttonText: string, descriptionText: string, onClickCallback: () => void) => {
-            const buttonWrapper = contentEl.createDiv({ cls: 'action-button-wrapper' });
-            const button = buttonWrapper.createEl('button', { text: buttonText, cls: 'mod-cta' });
-            button.addEventListener('click', () => {
-                try {
-                    onClickCallback();
-                } catch (error) {
-                    console.error(error);
-                    new Notice('An error occurred. Please check the console for more details.');
-                }
-            });
-            buttonWrapper.createEl('div', { text: descriptionText, cls: 'action-button-description' });
+        const file = this.app.vault.getAbstractFileByPath(this.record.path);
+        const content = file instanceof TFile ? await this.app.vault.read(file) : '';
+        contentEl.createEl('p', { text: `${this.record.links.length} links added to ${this.record.path} by run ${this.manifest.runId}.` });
+
+        const revert = async (shouldRevert: (link: ManifestLinkRecord) => boolean) => {
+            await this.plugin.revertLinks(this.manifest, this.record, shouldRevert);
+            await this.onOpen();
         };
 
-        // Always include the option to initiate the link creation process.
-        createButtonWithDescription('Start Link Creation', 'Initiates the link creation process.', async () => {
-            if (await this.plugin.canProceedWithLinkCreation()) {
-                this.plugin.startLinkCreationProcess();
-            }
-            this.close();
+        // One button per target, for targets linked more than once.
+        const targetCounts = new Map<string, number>();
+        this.record.links.forEach(link => targetCounts.set(link.targetPath, (targetCounts.get(link.targetPath) ?? 0) + 1));
+        targetCounts.forEach((count, targetPath) => {
+            if (count < 2) return;
+            contentEl.createEl('button', { text: `Revert all ${count} links to ${targetPath}` })
+                .addEventListener('click', () => revert(link => link.targetPath === targetPath));
         });
 
-        // Dynamically add "Revert Changes" and "Accept All Changes" options if applicable.
-        const bakFilesExist = await this.plugin.doBakFilesExist();
-        if (bakFilesExist) {
-            createButtonWithDescription('Revert Changes', 'Reverts all changes made by the plugin.', async () => {
-                await this.plugin.revertChanges();
-                this.close();
-            });
-
-            createButtonWithDescription('Accept All Changes', 'Accepts all changes and deletes backup files. This action is irreversible.', async () => {
-                await this.plugin.acceptAllChanges();
-                this.close();
+        // One row per link, with the text around it as it is now in the note.
+        const listEl = contentEl.createDiv({ attr: { style: 'max-height: 60vh; overflow-y: auto;' } });
+        this.record.links.forEach(link => {
+            const rowEl = listEl.createDiv({ attr: { style: 'padding: 2px 4px;' } });
+            const { lineNumber, before, after } = this.plugin.describeInsertion(content, {
+                start: link.linkedOffset,
+                end: link.linkedOffset + link.linkText.length,
+                originalText: link.originalText,
+                linkText: link.linkText,
+                targetPath: link.targetPath,
             });
-        }
+            rowEl.createEl('button', { text: 'Revert' }).addEventListener('click', () => revert(candidate => candidate.offset === link.offset));
+            rowEl.createSpan({ text: ` Line ${lineNumber}: ${before}` });
+            rowEl.createEl('mark', { text: link.linkText });
+            rowEl.createSpan({ text: `${after} → ${link.originalText}` });
+        });
     }
 
     /**
-     * Cleans up the modal's content when it's closed to ensure a fresh state on next open.
+     * Cleans up the modal's content when it's closed.
      */
     onClose() {
         this.contentEl.empty();
     }
 }
 
-
 /**
- * Custom modal for displaying a confirmation dialog with "Confirm" and "Cancel" buttons.
- * Allows executing different actions based on the user's choice.
+ * A modal listing the sessions, newest first, with the notes each one changed and what became of them.
+ * Each session with pending changes can be reverted or accepted on its own. A session cannot be reverted while a
+ * later session has pending changes to the same notes (see `findLaterSessions`).
  */
-class ConfirmationModal extends Modal {
-    message: string;
-    onConfirm: () => void;
-    onCancel?: () => void;
+class SessionHistoryModal extends Modal {
+    plugin: TitleMatchLinker;
 
     /**
-     * Constructs a confirmation modal.
-     * 
+     * Constructs a session history modal.
+     *
      * @param {App} app - The main app instance.
-     * @param {string} message - The message to display in the modal.
-     * @param {() => void} onConfirm - Callback to execute when "Confirm" is clicked.
-     * @param {() => void} [onCancel] - Optional callback to execute when "Cancel" is clicked.
+     * @param {TitleMatchLinker} plugin - The plugin instance, which holds the sessions and reverts or accepts them.
      */
-    constructor(app: App, message: string, onConfirm: () => void, onCancel?: () => void) {
+    constructor(app: App, plugin: TitleMatchLinker) {
         super(app);
-        this.message = message;
-        this.onConfirm = onConfirm;
-        this.onCancel = onCancel;
+        this.plugin = plugin;
     }
 
     /**
-     * Sets up the modal's content when it's opened.
+     * Sets up the modal's content when it's opened, and again after each session is reverted or accepted.
      */
     onOpen() {
-        this.contentEl.createEl('p', { text: this.message });
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl('h2', { text: 'Session History' });
 
-        // Creating the "Confirm" button with a primary call-to-action style.
-        this.contentEl.createEl('button', {
-            text: 'Confirm',
-            cls: 'mod-cta',
-            type: 'button'
-        }).addEventListener('click', () => {
-            this.onConfirm();
-            this.close();
-        });
+        if (this.plugin.manifests.length === 0) {
+            contentEl.createEl('p', { text: 'No sessions have been recorded yet.' });
+            return;
+        }
 
-        // Creating the "Cancel" button with a default style.
-        this.contentEl.createEl('button', {
-            text: 'Cancel',
-            type: 'button'
-        }).addEventListener('click', () => {
-            if (this.onCancel) {
-                this.onCancel();
+        const listEl = contentEl.createDiv({ attr: { style: 'max-height: 60vh; overflow-y: auto;' } });
+        [...this.plugin.manifests].reverse().forEach(manifest => {
+            const sessionEl = listEl.createDiv({ attr: { style: 'padding: 6px 0; border-bottom: 1px solid var(--background-modifier-border);' } });
+            const counts = { pending: 0, accepted: 0, reverted: 0, deleted: 0 };
+            manifest.files.forEach(record => counts[record.status]++);
+            sessionEl.createEl('strong', { text: `${new Date(manifest.timestamp).toLocaleString()} (${manifest.scope === 'vault' ? 'vault' : 'single note'})` });
+            sessionEl.createEl('div', { text: `${manifest.files.length} notes: ${counts.pending} pending, ${counts.accepted} accepted, ${counts.reverted} reverted${counts.deleted > 0 ? `, ${counts.deleted} deleted` : ''}.` });
+
+            const detailsEl = sessionEl.createEl('details');
+            detailsEl.createEl('summary', { text: manifest.runId });
+            manifest.files.forEach(record => {
+                const keptBackup = record.status === 'deleted' && this.plugin.hasBackup(record.backupPath) ? ` (backup kept in ${record.backupPath})` : '';
+                detailsEl.createEl('div', { text: `${record.path}: ${record.links.length} links, ${record.status}${keptBackup}` });
+            });
+            const hasKeptBackups = manifest.files.some(record => record.status === 'deleted' && this.plugin.hasBackup(record.backupPath));
+
+            if (counts.pending > 0) {
+                const laterSessions = this.plugin.findLaterSessions(manifest);
+                const revertButton = sessionEl.createEl('button', { text: 'Revert Session' });
+                if (laterSessions.length > 0) {
+                    revertButton.disabled = true;
+                    revertButton.title = `Later sessions changed the same notes: ${laterSessions.map(later => later.runId).join(', ')}.`;
+                }
+                revertButton.addEventListener('click', () => {
+                    new ConfirmationModal(this.app, "Are you sure you want to revert this session? This cannot be undone.", async () => {
+                        await this.plugin.revertSession(manifest);
+                        this.onOpen();
+                    }).open();
+                });
+            }
+            // Accepting also deletes the backups kept for the notes deleted since the run.
+            if (counts.pending > 0 || hasKeptBackups) {
+                sessionEl.createEl('button', { text: 'Accept Session', cls: 'mod-cta' }).addEventListener('click', () => {
+                    new ConfirmationModal(this.app, "Are you sure you want to accept this session and delete its backup files? This cannot be undone.", async () => {
+                        await this.plugin.acceptSession(manifest);
+                        this.onOpen();
+                    }).open();
+                });
+            }
+
+            const logFile = this.app.vault.getAbstractFileByPath(this.plugin.getSessionLogPath(manifest.runId));
+            if (logFile instanceof TFile) {
+                sessionEl.createEl('button', { text: 'Open Log' }).addEventListener('click', () => {
+                    this.app.workspace.getLeaf(false).openFile(logFile);
+                    this.close();
+                });
             }
-            this.close();
         });
     }
 
     /**
-     * Cleans up the modal's content when it's closed to ensure a fresh state on the next open.
+     * Cleans up the modal's content when it's closed.
      */
     onClose() {
         this.contentEl.empty();
@@ -1235,46 +4826,389 @@ class SettingTab extends PluginSettingTab {
 
         let textareaElement: HTMLTextAreaElement;
         new Setting(containerEl)
-            .setName('Excluded Folders')
-            .setDesc('Folders to exclude from processing. Enter one folder path per line.')
+            .setName('Exclusion Rules')
+            .setDesc('Notes to exclude from processing, one rule per line: a folder or file path (Archive), a glob (**/Templates/**, *.excalidraw.md), or a regular expression between slashes (/^Journal\\/\\d{4}/). Start a rule with ! to re-include what earlier rules excluded. The last matching rule wins.')
             .addTextArea(text => {
                 textareaElement = text.inputEl;
                 text.setValue(this.plugin.settings.excludedFolders.join('\n'));
+                text.inputEl.rows = 6;
+                text.inputEl.addEventListener('input', () => this.renderExclusionPreview(previewElement, textareaElement.value));
             });
 
-        // Save button for excluded folders
+        // Live preview of how many notes each rule matches.
+        const previewElement = containerEl.createDiv({ cls: 'setting-item-description' });
+        this.renderExclusionPreview(previewElement, this.plugin.settings.excludedFolders.join('\n'));
+
+        // Save button for exclusion rules
         new Setting(containerEl)
             .addButton(button => {
                 button.setButtonText('Save')
                     .setCta()
                     .onClick(async () => {
-                        const folderPaths = textareaElement.value.split('\n').map(line => line.trim()).filter(Boolean);
-                        const validatedFolders: string[] = [];
-                        const invalidFolders: string[] = [];
-
-                        for (const folderPath of folderPaths) {
-                            if (this.plugin.app.vault.getAbstractFileByPath(folderPath) instanceof TFolder) {
-                                validatedFolders.push(folderPath);
-                            } else {
-                                invalidFolders.push(folderPath);
+                        const rules = textareaElement.value.split('\n').map(line => line.trim()).filter(Boolean);
+                        const validatedRules: string[] = [];
+                        const invalidRules: string[] = [];
+
+                        for (const rule of rules) {
+                            try {
+                                ExclusionRules.parse(rule);
+                                validatedRules.push(rule);
+                            } catch (error) {
+                                invalidRules.push(rule);
                             }
                         }
 
-                        // Update the textarea to only include validated folder paths
-                        textareaElement.value = validatedFolders.join('\n');
-                        this.plugin.settings.excludedFolders = validatedFolders;
+                        // Update the textarea to only include valid rules
+                        textareaElement.value = validatedRules.join('\n');
+                        this.plugin.settings.excludedFolders = validatedRules;
                         await this.plugin.saveSettings();
+                        this.renderExclusionPreview(previewElement, textareaElement.value);
 
-                        if (invalidFolders.length > 0) {
-                            new Notice(`Invalid folders not saved: ${invalidFolders.join(', ')}`);
-                            // Remove invalid folders from the textarea
-                            textareaElement.value = validatedFolders.join('\n');
+                        if (invalidRules.length > 0) {
+                            new Notice(`Invalid rules not saved: ${invalidRules.join(', ')}`);
                         } else {
                             new Notice("Settings updated successfully.");
                         }
                     });
             });
 
+        // Scopes are saved as they are typed; invalid rules are reported below each text area.
+        const addScopeSetting = (name: string, desc: string, key: 'sourceScope' | 'targetScope') => {
+            new Setting(containerEl)
+                .setName(name)
+                .setDesc(desc)
+                .addTextArea(text => {
+                    text.setPlaceholder('folder:Glossary\ntag:#concept\nproperty:type=concept')
+                        .setValue(this.plugin.settings[key].join('\n'))
+                        .onChange(async (value) => {
+                            this.plugin.settings[key] = value.split('\n').map(line => line.trim()).filter(Boolean);
+                            await this.plugin.saveSettings();
+                            renderCount();
+                        });
+                });
+
+            const countElement = containerEl.createDiv({ cls: 'setting-item-description' });
+            const renderCount = () => {
+                const scope = new ScopeRules(this.plugin.settings[key]);
+                const count = this.app.vault.getMarkdownFiles().filter(file => scope.includes(file, this.app.metadataCache.getFileCache(file))).length;
+                countElement.setText([`${count} notes in scope.`, ...scope.errors.map(error => `Invalid rule, ${error}`)].join(' '));
+            };
+            renderCount();
+        };
+
+        addScopeSetting('Source Scope', 'Notes that may be modified, one rule per line: folder:Path (globs allowed), tag:#tag, property:key or property:key=value. Leave empty for the whole vault. Exclusion rules still apply.', 'sourceScope');
+        addScopeSetting('Target Scope', 'Notes that may become link targets, using the same rules as the source scope. Leave empty for the whole vault. Exclusion rules still apply.', 'targetScope');
+
+        // The glossary is checked when its path changes and when the button is clicked; problems are listed below it.
+        new Setting(containerEl)
+            .setName('Glossary')
+            .setDesc('A note with one "phrase:: [[Target]]" entry per line, or a JSON file of {"phrase": "Target"} pairs, linking phrases to notes with a different title. Write /pattern/flags for a regular expression phrase. Glossary entries win over note titles.')
+            .addText(text => {
+                text.setPlaceholder('Glossary.md')
+                    .setValue(this.plugin.settings.glossaryPath)
+                    .onChange(async (value) => {
+                        this.plugin.settings.glossaryPath = value.trim();
+                        await this.plugin.saveSettings();
+                    });
+            })
+            .addButton(button => {
+                button.setButtonText('Check')
+                    .onClick(() => renderGlossaryErrors());
+            });
+
+        const glossaryErrorsElement = containerEl.createDiv({ cls: 'setting-item-description' });
+        const renderGlossaryErrors = async () => {
+            const errors = await this.plugin.loadGlossary();
+            glossaryErrorsElement.empty();
+            if (!this.plugin.settings.glossaryPath) return;
+            glossaryErrorsElement.createDiv({ text: `${this.plugin.glossaryCandidates.length} glossary entries loaded.` });
+            errors.forEach(error => glossaryErrorsElement.createDiv({ text: error, cls: 'mod-warning' }));
+        };
+        renderGlossaryErrors();
+
+        new Setting(containerEl)
+            .setName('Ignored Titles')
+            .setDesc('Titles and aliases that are never linked, one per line. Matching is case-insensitive.')
+            .addTextArea(text => {
+                text.setPlaceholder('Home\nIndex')
+                    .setValue(this.plugin.settings.ignoredTitles.join('\n'))
+                    .onChange(async (value) => {
+                        this.plugin.settings.ignoredTitles = value.split('\n').map(line => line.trim()).filter(Boolean);
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        new Setting(containerEl)
+            .setName('Minimum Title Length')
+            .setDesc('Titles and aliases with fewer characters than this are never linked. Use 0 to link titles of any length.')
+            .addText(text => {
+                text.setPlaceholder('0')
+                    .setValue(String(this.plugin.settings.minimumTitleLength))
+                    .onChange(async (value) => {
+                        const length = parseInt(value, 10);
+                        this.plugin.settings.minimumTitleLength = isNaN(length) || length < 0 ? 0 : length;
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        new Setting(containerEl)
+            .setName('Detect Common Titles')
+            .setDesc('Before a vault-wide run, ask for confirmation before linking titles that appear in an unusually large share of the notes.')
+            .addToggle(toggle => {
+                toggle.setValue(this.plugin.settings.detectCommonTitles)
+                    .onChange(async (value) => {
+                        this.plugin.settings.detectCommonTitles = value;
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        new Setting(containerEl)
+            .setName('Common Title Threshold')
+            .setDesc(`Percentage of notes a title must appear in to be considered common. Titles found in fewer than ${COMMON_TITLE_MINIMUM_NOTES} notes are never flagged.`)
+            .addText(text => {
+                text.setPlaceholder('10')
+                    .setValue(String(this.plugin.settings.commonTitleThreshold))
+                    .onChange(async (value) => {
+                        const threshold = parseFloat(value);
+                        if (!isNaN(threshold) && threshold > 0 && threshold <= 100) {
+                            this.plugin.settings.commonTitleThreshold = threshold;
+                            await this.plugin.saveSettings();
+                        }
+                    });
+            });
+
+        new Setting(containerEl)
+            .setName('Duplicate Titles')
+            .setDesc('How to choose between notes that share a title: the note nearest to the linking note, the note in the highest-priority folder, or no link at all. Every case is listed in ReviewChanges.md.')
+            .addDropdown(dropdown => {
+                dropdown.addOption('nearest', 'Nearest folder')
+                    .addOption('priority', 'Folder priority list')
+                    .addOption('skip', 'Skip')
+                    .setValue(this.plugin.settings.duplicateTitleStrategy)
+                    .onChange(async (value) => {
+                        this.plugin.settings.duplicateTitleStrategy = value as TitleMatchLinkerSettings['duplicateTitleStrategy'];
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        new Setting(containerEl)
+            .setName('Folder Priority')
+            .setDesc('Folders to prefer when several notes share a title, one per line, highest priority first. Used by the "Folder priority list" option.')
+            .addTextArea(text => {
+                text.setValue(this.plugin.settings.folderPriority.join('\n'))
+                    .onChange(async (value) => {
+                        this.plugin.settings.folderPriority = value.split('\n').map(line => line.trim()).filter(Boolean);
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        new Setting(containerEl)
+            .setName('Link Frequency')
+            .setDesc('Which mentions of a note receive a link. Links that already exist in a note count as its first mention.')
+            .addDropdown(dropdown => {
+                dropdown.addOption('every', 'Every mention')
+                    .addOption('first-in-note', 'First mention in each note')
+                    .addOption('first-in-section', 'First mention under each heading')
+                    .setValue(this.plugin.settings.linkFrequency)
+                    .onChange(async (value) => {
+                        this.plugin.settings.linkFrequency = value as TitleMatchLinkerSettings['linkFrequency'];
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        new Setting(containerEl)
+            .setName('Maximum Links per Note')
+            .setDesc('The maximum number of links added to a single note in one run. Use 0 for no limit.')
+            .addText(text => {
+                text.setPlaceholder('0')
+                    .setValue(String(this.plugin.settings.maxLinksPerNote))
+                    .onChange(async (value) => {
+                        const limit = parseInt(value, 10);
+                        this.plugin.settings.maxLinksPerNote = isNaN(limit) || limit < 0 ? 0 : limit;
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        new Setting(containerEl)
+            .setName('Inflected Forms')
+            .setDesc('Also match inflected forms of titles and aliases, such as "projects" for a note titled "Project". The link keeps the text as written: [[Project|projects]].')
+            .addDropdown(dropdown => {
+                dropdown.addOption('off', 'Off');
+                INFLECTORS.forEach(inflector => dropdown.addOption(inflector.id, inflector.name));
+                dropdown.setValue(this.plugin.settings.inflectionMode)
+                    .onChange(async (value) => {
+                        this.plugin.settings.inflectionMode = value;
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        new Setting(containerEl)
+            .setName('Exact Form Only')
+            .setDesc('Titles and aliases that are never matched in an inflected form, one per line.')
+            .addTextArea(text => {
+                text.setValue(this.plugin.settings.inflectionExcludedTitles.join('\n'))
+                    .onChange(async (value) => {
+                        this.plugin.settings.inflectionExcludedTitles = value.split('\n').map(line => line.trim()).filter(Boolean);
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        new Setting(containerEl)
+            .setName('Link to Headings')
+            .setDesc('Also match headings inside other notes, producing links such as [[Note#Heading|heading]]. When a heading has the same text as a note title or alias, the note is linked instead.')
+            .addToggle(toggle => {
+                toggle.setValue(this.plugin.settings.linkToHeadings)
+                    .onChange(async (value) => {
+                        this.plugin.settings.linkToHeadings = value;
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        new Setting(containerEl)
+            .setName('Heading Levels')
+            .setDesc('The heading levels that can become link targets, separated by commas (e.g. 2, 3).')
+            .addText(text => {
+                text.setPlaceholder('2, 3')
+                    .setValue(this.plugin.settings.headingLevels.join(', '))
+                    .onChange(async (value) => {
+                        this.plugin.settings.headingLevels = value.split(',')
+                            .map(level => parseInt(level, 10))
+                            .filter(level => level >= 1 && level <= 6);
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        new Setting(containerEl)
+            .setName('Link Style')
+            .setDesc('Write wikilinks ([[Note|text]]) or Markdown links ([text](Note.md)). By default, the "Use [[Wikilinks]]" option of the vault is followed.')
+            .addDropdown(dropdown => {
+                dropdown.addOption('vault', 'Use vault setting')
+                    .addOption('wikilink', 'Wikilinks')
+                    .addOption('markdown', 'Markdown links')
+                    .setValue(this.plugin.settings.linkStyle)
+                    .onChange(async (value) => {
+                        this.plugin.settings.linkStyle = value as TitleMatchLinkerSettings['linkStyle'];
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        new Setting(containerEl)
+            .setName('Link Path')
+            .setDesc('The path written in each link. By default, the "New link format" option of the vault is followed.')
+            .addDropdown(dropdown => {
+                dropdown.addOption('vault', 'Use vault setting')
+                    .addOption('shortest', 'Shortest path when possible')
+                    .addOption('relative', 'Relative path to file')
+                    .addOption('absolute', 'Absolute path in vault')
+                    .setValue(this.plugin.settings.linkPathFormat)
+                    .onChange(async (value) => {
+                        this.plugin.settings.linkPathFormat = value as TitleMatchLinkerSettings['linkPathFormat'];
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        new Setting(containerEl)
+            .setName('Backup Location')
+            .setDesc('Where new backups are stored. Backups in the plugin folder are neither synced with the vault nor found by search. Existing backups stay where they are.')
+            .addDropdown(dropdown => {
+                dropdown.addOption('vault', 'The _tmlbackups folder')
+                    .addOption('plugin', 'The plugin folder')
+                    .setValue(this.plugin.settings.backupLocation)
+                    .onChange(async (value) => {
+                        this.plugin.settings.backupLocation = value as TitleMatchLinkerSettings['backupLocation'];
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        new Setting(containerEl)
+            .setName('Review Before Writing')
+            .setDesc('Show every proposed link, with its context, and write only the links you accept.')
+            .addToggle(toggle => {
+                toggle.setValue(this.plugin.settings.reviewBeforeWriting)
+                    .onChange(async (value) => {
+                        this.plugin.settings.reviewBeforeWriting = value;
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        new Setting(containerEl)
+            .setName('Preserve Original Casing')
+            .setDesc('Keep the matched text as the display text of each link (e.g. [[Kubernetes|kubernetes]]). When disabled, matches are replaced by the note title.')
+            .addToggle(toggle => {
+                toggle.setValue(this.plugin.settings.preserveOriginalCasing)
+                    .onChange(async (value) => {
+                        this.plugin.settings.preserveOriginalCasing = value;
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        new Setting(containerEl)
+            .setName('Ignore Diacritics')
+            .setDesc('Match titles regardless of accents, so that "cafe" links to a note titled "Café".')
+            .addToggle(toggle => {
+                toggle.setValue(this.plugin.settings.ignoreDiacritics)
+                    .onChange(async (value) => {
+                        this.plugin.settings.ignoreDiacritics = value;
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        new Setting(containerEl)
+            .setName('CJK Word Segmentation')
+            .setDesc('Only link titles in Chinese and Japanese text when they form whole words according to a dictionary. When disabled, titles can match anywhere in such text.')
+            .addToggle(toggle => {
+                toggle.setValue(this.plugin.settings.cjkSegmentation)
+                    .onChange(async (value) => {
+                        this.plugin.settings.cjkSegmentation = value;
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        new Setting(containerEl)
+            .setName('Link in Headings')
+            .setDesc('Allow links to be created inside headings.')
+            .addToggle(toggle => {
+                toggle.setValue(this.plugin.settings.linkInHeadings)
+                    .onChange(async (value) => {
+                        this.plugin.settings.linkInHeadings = value;
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        new Setting(containerEl)
+            .setName('Link in Tables')
+            .setDesc('Allow links to be created inside table cells.')
+            .addToggle(toggle => {
+                toggle.setValue(this.plugin.settings.linkInTables)
+                    .onChange(async (value) => {
+                        this.plugin.settings.linkInTables = value;
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        new Setting(containerEl)
+            .setName('Link in Blockquotes')
+            .setDesc('Allow links to be created inside blockquotes. Callouts are configured separately below.')
+            .addToggle(toggle => {
+                toggle.setValue(this.plugin.settings.linkInBlockquotes)
+                    .onChange(async (value) => {
+                        this.plugin.settings.linkInBlockquotes = value;
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        new Setting(containerEl)
+            .setName('Protected Callout Types')
+            .setDesc('Callout types whose content never receives links, separated by commas (e.g. quote, abstract). Use * for all callouts.')
+            .addText(text => {
+                text.setPlaceholder('quote, abstract')
+                    .setValue(this.plugin.settings.protectedCalloutTypes.join(', '))
+                    .onChange(async (value) => {
+                        this.plugin.settings.protectedCalloutTypes = value.split(',').map(type => type.trim()).filter(Boolean);
+                        await this.plugin.saveSettings();
+                    });
+            });
+
         // Function to add action buttons
         const addActionSetting = (
             name: string,
@@ -1318,6 +5252,30 @@ class SettingTab extends PluginSettingTab {
 
         
     }
+
+    /**
+     * Shows, for each exclusion rule being edited, how many notes it matches on its own,
+     * followed by the number of notes excluded by all rules together and any invalid rules.
+     *
+     * @param {HTMLElement} previewElement - The element to render the preview into.
+     * @param {string} value - The current content of the exclusion rules textarea.
+     */
+    renderExclusionPreview(previewElement: HTMLElement, value: string) {
+        previewElement.empty();
+        const files = this.app.vault.getMarkdownFiles();
+        const ruleSet = new ExclusionRules(value.split('\n'));
+
+        ruleSet.rules.forEach(rule => {
+            const count = files.filter(file => ExclusionRules.matches(rule, file.path)).length;
+            previewElement.createDiv({ text: `${rule.source}: ${count} ${rule.negated ? 're-included' : 'matched'} note${count === 1 ? '' : 's'}` });
+        });
+        ruleSet.errors.forEach(error => {
+            previewElement.createDiv({ text: `Invalid rule, ${error}`, cls: 'mod-warning' });
+        });
+
+        const excludedCount = files.filter(file => ruleSet.isExcluded(file.path)).length;
+        previewElement.createDiv({ text: `${excludedCount} of ${files.length} notes excluded.` });
+    }
 }
 
 
@@ -0,0 +1,79 @@
+import { TextDiff } from '../main';
+
+/**
+ * Builds a text of numbered words, so that every token is distinct.
+ *
+ * @param {number} count - The number of words.
+ * @param {string} prefix - Distinguishes the words of unrelated texts.
+ * @returns The words, separated by spaces.
+ */
+function words(count: number, prefix = 'w'): string {
+    return Array.from({ length: count }, (_, index) => `${prefix}${index}`).join(' ');
+}
+
+describe('TextDiff.mapRange', () => {
+    it('shifts a range by the edits before it', () => {
+        const oldTokens = TextDiff.tokenize('[[Alpha]] and [[Beta]].');
+        const hunks = TextDiff.diff(oldTokens, TextDiff.tokenize('Intro. [[Alpha]] and also [[Beta]].'));
+        expect(hunks).not.toBeNull();
+        expect(TextDiff.mapRange(oldTokens, hunks ?? [], 0, 9)).toBe(7);
+        expect(TextDiff.mapRange(oldTokens, hunks ?? [], 14, 22)).toBe(26);
+    });
+
+    it('does not map a range that an edit touches', () => {
+        const oldTokens = TextDiff.tokenize('[[Alpha]] and [[Beta]].');
+        const hunks = TextDiff.diff(oldTokens, TextDiff.tokenize('[[Alpha|A]] and [[Beta]].'));
+        expect(TextDiff.mapRange(oldTokens, hunks ?? [], 0, 9)).toBeNull();
+    });
+});
+
+describe('TextDiff.merge', () => {
+    it('keeps the edits of both sides when they do not overlap', () => {
+        const base = '[[Alpha]] and [[Beta]] are friends.';
+        const ours = 'Intro.\n\n[[Alpha]] and [[Beta]] are good friends.';
+        const theirs = 'Alpha and Beta are friends.';
+        expect(TextDiff.merge(base, ours, theirs)).toEqual({ content: 'Intro.\n\nAlpha and Beta are good friends.', conflicts: [] });
+    });
+
+    it('reports a conflict when both sides change the same words', () => {
+        const base = 'Intro.\n[[Alpha]] and [[Beta]] are friends.';
+        const ours = 'Intro.\n[[Alpha|A]] and [[Beta]] are friends.';
+        const theirs = 'Intro.\nAlpha and Beta are friends.';
+        const { content, conflicts } = TextDiff.merge(base, ours, theirs);
+        expect(content).toBeNull();
+        expect(conflicts).toEqual([{ lineNumber: 2, baseText: '[[Alpha]]', currentText: '[[Alpha|A]]', revertedText: 'Alpha' }]);
+    });
+
+    it('merges a large note with edits spread through it', () => {
+        const base = words(100000);
+        const ours = base.replace('w10 ', 'w10 inserted ').replace('w50000 ', '').replace('w99990', 'changed');
+        const theirs = base.replace('w70000', '[[w70000]]');
+        const { content, conflicts } = TextDiff.merge(base, ours, theirs);
+        expect(conflicts).toEqual([]);
+        expect(content).toBe(ours.replace('w70000', '[[w70000]]'));
+    });
+
+    it('falls back to a conflict on unrelated large notes without tracing the whole diff', () => {
+        // 20 000 distinct words on each side are 40 000 edits apart, far beyond the maximum edit distance.
+        const base = words(20000);
+        const rewritten = words(20000, 'x');
+        const arrayBuffersBefore = process.memoryUsage().arrayBuffers;
+        expect(TextDiff.diff(TextDiff.tokenize(base), TextDiff.tokenize(rewritten))).toBeNull();
+        // A full trace would take gigabytes; the capped one stays within a few megabytes.
+        expect(process.memoryUsage().arrayBuffers - arrayBuffersBefore).toBeLessThan(64 * 1024 * 1024);
+
+        expect(TextDiff.merge(base, rewritten, base)).toEqual({
+            content: null,
+            conflicts: [{ lineNumber: 1, baseText: base, currentText: rewritten, revertedText: base }],
+        });
+    });
+
+    it('still diffs texts just within the maximum edit distance', () => {
+        // Replacing a token is a deletion and an insertion.
+        const replaced = TextDiff.MAX_EDIT_DISTANCE / 2;
+        const oldTokens = TextDiff.tokenize(words(replaced));
+        const hunks = TextDiff.diff(oldTokens, TextDiff.tokenize(words(replaced, 'x')));
+        expect(hunks).not.toBeNull();
+        expect(TextDiff.diff(oldTokens, TextDiff.tokenize(words(replaced + 1, 'x')))).toBeNull();
+    });
+});
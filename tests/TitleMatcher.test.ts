@@ -0,0 +1,62 @@
+import TitleMatchLinker from '../main';
+import { MemoryVault, createPlugin } from './helpers';
+
+/**
+ * Finds the titles of a vault in a text with the plugin's matcher.
+ *
+ * @param {string[]} titles - The titles of the notes in the vault.
+ * @param {string} text - The text to search.
+ * @param {Partial<TitleMatchLinker['settings']>} settings - The settings that differ from the defaults.
+ * @returns The text and offsets of each match, in order.
+ */
+function findTitles(titles: string[], text: string, settings: Partial<TitleMatchLinker['settings']> = {}): [string, number, number][] {
+    const vault = new MemoryVault(Object.fromEntries(titles.map(title => [`${title}.md`, ''])));
+    const plugin = createPlugin(vault, settings);
+    return plugin.buildTitleMatcher(plugin.getTargetFiles()).findMatches(text)
+        .map(match => [text.slice(match.start, match.end), match.start, match.end] as [string, number, number])
+        .sort((a, b) => a[1] - b[1] || a[2] - b[2]);
+}
+
+describe('TitleMatcher', () => {
+    it('finds every occurrence of every title in one pass, including titles inside longer ones', () => {
+        expect(findTitles(['New York', 'York', 'New York City'], 'New York City and York.')).toEqual([
+            ['New York', 0, 8],
+            ['New York City', 0, 13],
+            ['York', 4, 8],
+            ['York', 18, 22],
+        ]);
+    });
+
+    it('matches a large number of titles', () => {
+        const titles = Array.from({ length: 2000 }, (_, index) => `Title ${index}`);
+        expect(findTitles(titles, 'See Title 1999, then Title 7.').map(([text]) => text)).toEqual(['Title 1999', 'Title 7']);
+    });
+
+    it('is case-insensitive', () => {
+        expect(findTitles(['Alpha'], 'ALPHA and alpha')).toEqual([['ALPHA', 0, 5], ['alpha', 10, 15]]);
+    });
+});
+
+describe('TitleMatcher word boundaries', () => {
+    it('does not match titles glued to letters of any script', () => {
+        expect(findTitles(['Art'], 'Art, Artist, and Fartlek.')).toEqual([['Art', 0, 3]]);
+        expect(findTitles(['Ελλάδα'], 'Η Ελλάδα και η Ελλάδας.')).toEqual([['Ελλάδα', 2, 8]]);
+        expect(findTitles(['Москва'], 'Москва и Москвы.')).toEqual([['Москва', 0, 6]]);
+    });
+
+    it('treats each Chinese or Japanese character as a word boundary', () => {
+        expect(findTitles(['東京'], '我在東京工作。')).toEqual([['東京', 2, 4]]);
+    });
+
+    it('matches titles regardless of Unicode normalization, with offsets in the original text', () => {
+        // A title written with a precomposed "é", and a text with an "e" followed by a combining accent.
+        expect(findTitles(['Caf\u00e9'], 'Le Cafe\u0301 ouvre.')).toEqual([['Cafe\u0301', 3, 8]]);
+        expect(findTitles(['Cafe\u0301'], 'Le Caf\u00e9 ouvre.')).toEqual([['Caf\u00e9', 3, 7]]);
+    });
+
+    it('matches titles without their accents only when diacritics are ignored', () => {
+        expect(findTitles(['Café'], 'Un cafe noir.')).toEqual([]);
+        expect(findTitles(['Café'], 'Un cafe noir.', { ignoreDiacritics: true })).toEqual([['cafe', 3, 7]]);
+        expect(findTitles(['Resume'], 'My résumé.', { ignoreDiacritics: true })).toEqual([['résumé', 3, 9]]);
+    });
+});
@@ -0,0 +1,158 @@
+import { App, CachedMetadata, TFile, TFolder } from 'obsidian';
+import TitleMatchLinker, { BackupStore, DEFAULT_SETTINGS } from '../main';
+
+/**
+ * An in-memory vault: notes, backups, and plugin data all live in one map from path to content,
+ * and folders exist implicitly as path prefixes, or explicitly once created.
+ */
+export class MemoryVault {
+    files = new Map<string, string>();
+    folders = new Set<string>();
+    fileObjects = new Map<string, TFile>(); // One object per path, so that files can be compared by identity.
+    config: Record<string, unknown> = {}; // Obsidian's own options, read by `getConfig`.
+
+    adapter = {
+        exists: async (path: string) => this.files.has(path) || this.isFolder(path),
+        read: async (path: string) => this.readPath(path),
+        write: async (path: string, content: string) => { this.files.set(path, content); },
+        remove: async (path: string) => { this.files.delete(path); },
+        mkdir: async (path: string) => { this.folders.add(path); },
+        rmdir: async (path: string) => { this.removeFolder(path); },
+        list: async (path: string) => this.list(path),
+    };
+
+    constructor(files: Record<string, string> = {}) {
+        Object.entries(files).forEach(([path, content]) => this.files.set(path, content));
+    }
+
+    isFolder(path: string): boolean {
+        return this.folders.has(path) || [...this.files.keys(), ...this.folders].some(key => key.startsWith(`${path}/`));
+    }
+
+    readPath(path: string): string {
+        const content = this.files.get(path);
+        if (content === undefined) throw new Error(`File not found: ${path}`);
+        return content;
+    }
+
+    removeFolder(path: string) {
+        [...this.files.keys()].filter(key => key.startsWith(`${path}/`)).forEach(key => this.files.delete(key));
+        [...this.folders].filter(folder => folder === path || folder.startsWith(`${path}/`)).forEach(folder => this.folders.delete(folder));
+    }
+
+    list(path: string): { files: string[], folders: string[] } {
+        const children = [...this.files.keys(), ...this.folders].filter(key => key.startsWith(`${path}/`));
+        const names = new Set(children.map(key => key.slice(path.length + 1).split('/')[0]));
+        const paths = [...names].map(name => `${path}/${name}`);
+        return { files: paths.filter(child => this.files.has(child)), folders: paths.filter(child => !this.files.has(child)) };
+    }
+
+    getFile(path: string): TFile {
+        let file = this.fileObjects.get(path);
+        if (!file) {
+            file = new TFile();
+            file.path = path;
+            file.name = path.split('/').pop() ?? path;
+            file.extension = file.name.includes('.') ? file.name.split('.').pop() ?? '' : '';
+            file.basename = file.name.replace(/\.[^.]*$/, '');
+            this.fileObjects.set(path, file);
+        }
+        return file;
+    }
+
+    getAbstractFileByPath(path: string): TFile | TFolder | null {
+        if (this.files.has(path)) {
+            return this.getFile(path);
+        }
+        if (this.isFolder(path)) {
+            const folder = new TFolder();
+            folder.path = path;
+            return folder;
+        }
+        return null;
+    }
+
+    getMarkdownFiles(): TFile[] {
+        return [...this.files.keys()].filter(path => path.endsWith('.md')).map(path => this.getFile(path));
+    }
+
+    getConfig(key: string): unknown {
+        return this.config[key];
+    }
+
+    async read(file: TFile): Promise<string> {
+        return this.readPath(file.path);
+    }
+
+    async cachedRead(file: TFile): Promise<string> {
+        return this.readPath(file.path);
+    }
+
+    async create(path: string, content: string): Promise<TFile> {
+        if (this.files.has(path)) throw new Error(`File already exists: ${path}`);
+        this.files.set(path, content);
+        return this.getFile(path);
+    }
+
+    async modify(file: TFile, content: string) {
+        this.files.set(file.path, content);
+    }
+
+    async delete(file: TFile | TFolder) {
+        if (file instanceof TFolder) {
+            this.removeFolder(file.path);
+        } else {
+            this.files.delete(file.path);
+        }
+    }
+
+    async createFolder(path: string) {
+        this.folders.add(path);
+    }
+}
+
+/**
+ * The parts of the metadata cache the plugin uses, over a `MemoryVault`. The metadata of each note is set by the tests;
+ * link paths resolve like Obsidian's shortest format: by path, or by basename when it is unique.
+ */
+export class MemoryMetadataCache {
+    vault: MemoryVault;
+    metadata = new Map<string, CachedMetadata>();
+
+    constructor(vault: MemoryVault) {
+        this.vault = vault;
+    }
+
+    getFileCache(file: TFile): CachedMetadata {
+        return this.metadata.get(file.path) ?? {};
+    }
+
+    getFirstLinkpathDest(linkpath: string, sourcePath: string): TFile | null {
+        const files = this.vault.getMarkdownFiles();
+        return files.find(file => file.path === linkpath || file.path === `${linkpath}.md`) ??
+            files.find(file => file.basename === linkpath) ?? null;
+    }
+
+    fileToLinktext(file: TFile, sourcePath: string, omitMdExtension = true): string {
+        const isUnique = this.vault.getMarkdownFiles().filter(other => other.basename === file.basename).length === 1;
+        const linktext = isUnique ? file.basename : file.path.replace(/\.md$/, '');
+        return omitMdExtension || !isUnique ? linktext : file.name;
+    }
+}
+
+/**
+ * Creates a plugin on an in-memory vault, without loading it.
+ *
+ * @param {MemoryVault} vault - The vault the plugin works on.
+ * @param {Partial<TitleMatchLinker['settings']>} settings - The settings that differ from the defaults.
+ * @returns The plugin, with an empty backup store in `_tmlbackups`.
+ */
+export function createPlugin(vault: MemoryVault, settings: Partial<TitleMatchLinker['settings']> = {}): TitleMatchLinker {
+    const app = { vault, metadataCache: new MemoryMetadataCache(vault) } as unknown as App;
+    const plugin = new TitleMatchLinker(app, { id: 'title-match-linker', dir: '.obsidian/plugins/title-match-linker' } as unknown as TitleMatchLinker['manifest']);
+    // The special folders are already excluded, so the settings are never saved.
+    plugin.settings = { ...JSON.parse(JSON.stringify(DEFAULT_SETTINGS)), excludedFolders: ['_tmldata', '_tmlbackups'], ...settings };
+    plugin.compileRules();
+    plugin.backupStore = new BackupStore(app.vault.adapter, ['_tmlbackups']);
+    return plugin;
+}
@@ -0,0 +1,400 @@
+import { CachedMetadata } from 'obsidian';
+import { Modal, notices } from '../__mocks__/obsidian';
+import TitleMatchLinker from '../main';
+import { MemoryMetadataCache, MemoryVault, createPlugin } from './helpers';
+
+/**
+ * Runs the plugin on one note of a vault, with the target notes of the settings.
+ *
+ * @param {TitleMatchLinker} plugin - The plugin, on a vault holding the note.
+ * @param {string} path - The path of the note to link.
+ * @param {Set<string>} skippedTitles - The lowercased titles skipped for the run.
+ * @returns The content of the note with its links.
+ */
+function linkNote(plugin: TitleMatchLinker, path: string, skippedTitles = new Set<string>()): string {
+    const vault = plugin.app.vault as unknown as MemoryVault;
+    const matcher = plugin.buildTitleMatcher(plugin.getTargetFiles(), skippedTitles);
+    return plugin.processContent(vault.readPath(path), matcher, vault.getFile(path)).content;
+}
+
+/**
+ * Sets the metadata the cache holds for a note.
+ *
+ * @param {TitleMatchLinker} plugin - The plugin, on a `MemoryVault`.
+ * @param {string} path - The path of the note.
+ * @param {CachedMetadata} metadata - The frontmatter, headings, or tags of the note.
+ */
+function setMetadata(plugin: TitleMatchLinker, path: string, metadata: CachedMetadata) {
+    (plugin.app.metadataCache as unknown as MemoryMetadataCache).metadata.set(path, metadata);
+}
+
+describe('protected regions', () => {
+    it('links the prose around inline code, links, URLs, tags, and math on the same line', () => {
+        const line = 'Alpha `Alpha` [[Alpha]] [Alpha](Alpha.md) https://alpha.example/Alpha #Alpha $Alpha$ Alpha';
+        const vault = new MemoryVault({ 'Alpha.md': '', 'Note.md': line });
+        expect(linkNote(createPlugin(vault), 'Note.md'))
+            .toBe('[[Alpha]] `Alpha` [[Alpha]] [Alpha](Alpha.md) https://alpha.example/Alpha #Alpha $Alpha$ [[Alpha]]');
+    });
+
+    it('leaves front matter, code blocks, math blocks, and comments alone', () => {
+        const content = '---\ntitle: Alpha\n---\n```\nAlpha\n```\n$$\nAlpha\n$$\n%% Alpha %%\n<!-- Alpha -->\nAlpha';
+        const vault = new MemoryVault({ 'Alpha.md': '', 'Note.md': content });
+        expect(linkNote(createPlugin(vault), 'Note.md')).toBe(content.replace(/Alpha$/, '[[Alpha]]'));
+    });
+
+    const NOTE = '> [!quote] Said\n> Alpha is here.\n\n> Alpha in a blockquote.';
+
+    it('protects headings and tables when linking in them is disabled', () => {
+        const content = '## Alpha\n\n| Alpha | Beta |\n| --- | --- |\n| Alpha | x |\n\nAlpha';
+        const vault = new MemoryVault({ 'Alpha.md': '', 'Note.md': content });
+        expect(linkNote(createPlugin(vault), 'Note.md')).toBe(content.replace(/Alpha/g, '[[Alpha]]'));
+        expect(linkNote(createPlugin(vault, { linkInHeadings: false, linkInTables: false }), 'Note.md'))
+            .toBe(content.replace(/Alpha$/, '[[Alpha]]'));
+    });
+
+    it('protects every callout with the "*" callout type', () => {
+        const content = '> [!note]\n> Alpha\n\n> Alpha';
+        const vault = new MemoryVault({ 'Alpha.md': '', 'Note.md': content });
+        expect(linkNote(createPlugin(vault, { protectedCalloutTypes: ['*'] }), 'Note.md')).toBe('> [!note]\n> Alpha\n\n> [[Alpha]]');
+    });
+
+    it('protects quote callouts listed in the protected callout types', () => {
+        const vault = new MemoryVault({ 'Alpha.md': '', 'Note.md': NOTE });
+        const plugin = createPlugin(vault, { protectedCalloutTypes: ['quote'] });
+        expect(linkNote(plugin, 'Note.md')).toBe('> [!quote] Said\n> Alpha is here.\n\n> [[Alpha]] in a blockquote.');
+    });
+
+    it('leaves quote callouts to the callout types when blockquotes are protected', () => {
+        const vault = new MemoryVault({ 'Alpha.md': '', 'Note.md': NOTE });
+        const plugin = createPlugin(vault, { linkInBlockquotes: false });
+        expect(linkNote(plugin, 'Note.md')).toBe('> [!quote] Said\n> [[Alpha]] is here.\n\n> Alpha in a blockquote.');
+    });
+});
+
+describe('HTML blocks', () => {
+    it('protects a multi-line HTML block up to the next blank line', () => {
+        const vault = new MemoryVault({ 'Alpha.md': '', 'Note.md': '<div>\nAlpha inside.\n</div>\n\nAlpha outside.' });
+        expect(linkNote(createPlugin(vault), 'Note.md')).toBe('<div>\nAlpha inside.\n</div>\n\n[[Alpha]] outside.');
+    });
+
+    it('protects a raw text element up to its closing tag, across blank lines', () => {
+        const vault = new MemoryVault({ 'Alpha.md': '', 'Note.md': '<pre>\nAlpha\n\nAlpha\n</pre>\nAlpha after.' });
+        expect(linkNote(createPlugin(vault), 'Note.md')).toBe('<pre>\nAlpha\n\nAlpha\n</pre>\n[[Alpha]] after.');
+    });
+});
+
+describe('inflections', () => {
+    it('links the inflected forms of a title, keeping the form as display text', () => {
+        const vault = new MemoryVault({ 'City.md': '', 'Note.md': 'Two cities and a city.' });
+        expect(linkNote(createPlugin(vault), 'Note.md')).toBe('Two cities and a [[City|city]].');
+        expect(linkNote(createPlugin(vault, { inflectionMode: 'english' }), 'Note.md')).toBe('Two [[City|cities]] and a [[City|city]].');
+    });
+
+    it('matches only the exact form of the titles excluded from inflection', () => {
+        const vault = new MemoryVault({ 'City.md': '', 'Note.md': 'Two cities and a city.' });
+        const plugin = createPlugin(vault, { inflectionMode: 'english', inflectionExcludedTitles: ['CITY'] });
+        expect(linkNote(plugin, 'Note.md')).toBe('Two cities and a [[City|city]].');
+    });
+
+    it('skips every form of a common title found only in an inflected form', async () => {
+        const notes: Record<string, string> = { 'Home.md': '' };
+        for (let index = 0; index < 5; index++) notes[`Note ${index}.md`] = 'Back to the Homes.';
+        const vault = new MemoryVault(notes);
+        const plugin = createPlugin(vault, { inflectionMode: 'english' });
+
+        const commonTitles = await plugin.findCommonTitles(plugin.getSourceFiles(), plugin.buildTitleMatcher(plugin.getTargetFiles()));
+        expect(commonTitles).toEqual([{ title: 'Home', noteCount: 5 }]);
+
+        const skippedTitles = new Set(commonTitles.map(({ title }) => title.toLowerCase()));
+        expect(linkNote(plugin, 'Note 0.md', skippedTitles)).toBe('Back to the Homes.');
+    });
+
+    it('ignores every form of an ignored title, and an ignored form alone', () => {
+        const vault = new MemoryVault({ 'Home.md': '', 'Note.md': 'Homes and Home.' });
+        expect(linkNote(createPlugin(vault, { inflectionMode: 'english', ignoredTitles: ['Home'] }), 'Note.md')).toBe('Homes and Home.');
+        expect(linkNote(createPlugin(vault, { inflectionMode: 'english', ignoredTitles: ['Homes'] }), 'Note.md')).toBe('Homes and [[Home]].');
+    });
+});
+
+describe('review before writing', () => {
+    let vault: MemoryVault;
+    let plugin: TitleMatchLinker;
+
+    beforeEach(() => {
+        notices.length = 0;
+        vault = new MemoryVault({ 'Alpha.md': '', 'Note.md': 'Alpha is here.' });
+        plugin = createPlugin(vault, { reviewBeforeWriting: true });
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    /**
+     * Approves every proposed link when the review modal opens, after running an edit of the user.
+     *
+     * @param {() => void} edit - The edit made while the modal is open.
+     */
+    function approveAll(edit: () => void = () => {}) {
+        jest.spyOn(Modal.prototype, 'open').mockImplementation(function (this: Modal) {
+            edit();
+            const modal = this as unknown as { proposals: unknown[], onConfirm: (approvedProposals: unknown[]) => void };
+            modal.onConfirm(modal.proposals);
+        });
+    }
+
+    it('writes the approved links', async () => {
+        approveAll();
+        await plugin.linkSingleNote(vault.getFile('Note.md'));
+        expect(vault.readPath('Note.md')).toBe('[[Alpha]] is here.');
+    });
+
+    it('leaves a note edited during the review alone', async () => {
+        approveAll(() => vault.files.set('Note.md', 'Alpha is here, and a new sentence.'));
+        await plugin.linkSingleNote(vault.getFile('Note.md'));
+        expect(vault.readPath('Note.md')).toBe('Alpha is here, and a new sentence.');
+        expect(notices).toContain('Skipping Note.md: it was modified during the review.');
+        expect(plugin.backupStore.entries.size).toBe(0);
+    });
+});
+
+describe('notes sharing a title', () => {
+    it('links a note to another note with the same title, but not to itself', () => {
+        const vault = new MemoryVault({ 'A/Meeting.md': 'Notes from the Meeting.', 'B/Meeting.md': '' });
+        expect(linkNote(createPlugin(vault), 'A/Meeting.md')).toBe('Notes from the [[B/Meeting|Meeting]].');
+    });
+
+    const sharedTitleVault = () => new MemoryVault({
+        'Projects/Alpha/Note.md': 'See the Roadmap.',
+        'Projects/Alpha/Roadmap.md': '',
+        'Archive/Roadmap.md': '',
+    });
+
+    it('links the nearest note by default and reports the ambiguity', () => {
+        const vault = sharedTitleVault();
+        const plugin = createPlugin(vault);
+        const matcher = plugin.buildTitleMatcher(plugin.getTargetFiles());
+        const { content, ambiguities } = plugin.processContent('See the Roadmap.', matcher, vault.getFile('Projects/Alpha/Note.md'));
+        expect(content).toBe('See the [[Projects/Alpha/Roadmap|Roadmap]].');
+        expect(ambiguities).toEqual([{
+            sourcePath: 'Projects/Alpha/Note.md',
+            text: 'Roadmap',
+            targetPaths: ['Archive/Roadmap.md', 'Projects/Alpha/Roadmap.md'],
+            chosenPath: 'Projects/Alpha/Roadmap.md',
+        }]);
+    });
+
+    it('links the note in the earliest priority folder with the priority strategy', () => {
+        const plugin = createPlugin(sharedTitleVault(), { duplicateTitleStrategy: 'priority', folderPriority: ['Archive/'] });
+        expect(linkNote(plugin, 'Projects/Alpha/Note.md')).toBe('See the [[Archive/Roadmap|Roadmap]].');
+    });
+
+    it('leaves a shared title unlinked with the skip strategy', () => {
+        const plugin = createPlugin(sharedTitleVault(), { duplicateTitleStrategy: 'skip' });
+        expect(linkNote(plugin, 'Projects/Alpha/Note.md')).toBe('See the Roadmap.');
+    });
+});
+
+describe('aliases', () => {
+    it('links the aliases of a note from its frontmatter', () => {
+        const vault = new MemoryVault({ 'Kubernetes.md': '', 'Note.md': 'Deployed on K8s and Kubernetes.' });
+        const plugin = createPlugin(vault);
+        setMetadata(plugin, 'Kubernetes.md', { frontmatter: { aliases: ['K8s'] } });
+        expect(linkNote(plugin, 'Note.md')).toBe('Deployed on [[Kubernetes|K8s]] and [[Kubernetes]].');
+    });
+});
+
+describe('glossary', () => {
+    const GLOSSARY = '- K8s:: [[Kubernetes]]\n- /v\\d+\\.\\d+/:: [[Releases#History|history]]\n- Legacy:: [[Old/Legacy]]\n- Ghost:: [[Nowhere]]\nNot an entry.';
+
+    it('links the phrases and regular expressions of a glossary note, and reports the invalid entries', async () => {
+        const vault = new MemoryVault({
+            'Glossary.md': GLOSSARY,
+            'Kubernetes.md': '',
+            'Releases.md': '',
+            'Old/Legacy.md': '',
+            'Note.md': 'K8s v1.28 replaced the Legacy setup.',
+        });
+        const plugin = createPlugin(vault, { glossaryPath: 'Glossary.md', excludedFolders: ['_tmldata', '_tmlbackups', 'Old'] });
+
+        expect(await plugin.loadGlossary()).toEqual([
+            '"Legacy": the target note "Old/Legacy.md" is excluded or outside of the target scope.',
+            '"Ghost": the target note "Nowhere" does not exist.',
+        ]);
+        expect(linkNote(plugin, 'Note.md')).toBe('[[Kubernetes|K8s]] [[Releases#History|v1.28]] replaced the Legacy setup.');
+    });
+
+    it('reports a missing glossary file', async () => {
+        const plugin = createPlugin(new MemoryVault(), { glossaryPath: 'Glossary.md' });
+        expect(await plugin.loadGlossary()).toEqual(['The glossary file "Glossary.md" does not exist.']);
+    });
+});
+
+describe('link limits', () => {
+    const CONTENT = 'Alpha, [[Beta]].\n\n## Later\n\nAlpha, Beta, Gamma, Alpha.';
+    const limitVault = () => new MemoryVault({ 'Alpha.md': '', 'Beta.md': '', 'Gamma.md': '', 'Note.md': CONTENT });
+
+    it('links only the first mention of each target in the note, counting existing links', () => {
+        const plugin = createPlugin(limitVault(), { linkFrequency: 'first-in-note' });
+        expect(linkNote(plugin, 'Note.md')).toBe('[[Alpha]], [[Beta]].\n\n## Later\n\nAlpha, Beta, [[Gamma]], Alpha.');
+    });
+
+    it('links only the first mention of each target under each heading', () => {
+        const plugin = createPlugin(limitVault(), { linkFrequency: 'first-in-section' });
+        expect(linkNote(plugin, 'Note.md')).toBe('[[Alpha]], [[Beta]].\n\n## Later\n\n[[Alpha]], [[Beta]], [[Gamma]], Alpha.');
+    });
+
+    it('stops at the maximum number of links per note', () => {
+        const plugin = createPlugin(limitVault(), { maxLinksPerNote: 2 });
+        expect(linkNote(plugin, 'Note.md')).toBe('[[Alpha]], [[Beta]].\n\n## Later\n\n[[Alpha]], Beta, Gamma, Alpha.');
+    });
+});
+
+describe('heading links', () => {
+    /**
+     * Gives `Docker.md` a level 1 heading repeating its title, and headings of levels 1 to 3.
+     *
+     * @param {TitleMatchLinker} plugin - The plugin, on a vault holding `Docker.md`.
+     */
+    function setDockerHeadings(plugin: TitleMatchLinker) {
+        const position = { start: { line: 0, col: 0, offset: 0 }, end: { line: 0, col: 0, offset: 0 } };
+        setMetadata(plugin, 'Docker.md', { headings: [
+            { heading: 'Docker', level: 1, position },
+            { heading: 'Overview', level: 1, position },
+            { heading: 'Volumes', level: 2, position },
+            { heading: 'Bind Mounts', level: 3, position },
+        ] });
+    }
+
+    it('links the headings of the selected levels in target notes', () => {
+        const vault = new MemoryVault({ 'Docker.md': '', 'Note.md': 'The Docker overview covers volumes and bind mounts.' });
+        const plugin = createPlugin(vault, { linkToHeadings: true });
+        setDockerHeadings(plugin);
+        expect(linkNote(plugin, 'Note.md'))
+            .toBe('The [[Docker]] overview covers [[Docker#Volumes|volumes]] and [[Docker#Bind Mounts|bind mounts]].');
+    });
+
+    it('leaves headings alone when heading links are disabled', () => {
+        const vault = new MemoryVault({ 'Docker.md': '', 'Note.md': 'Docker volumes.' });
+        const plugin = createPlugin(vault);
+        setDockerHeadings(plugin);
+        expect(linkNote(plugin, 'Note.md')).toBe('[[Docker]] volumes.');
+    });
+});
+
+describe('display text', () => {
+    it('keeps the casing of the matched text as display text', () => {
+        const vault = new MemoryVault({ 'Machine Learning.md': '', 'Note.md': 'About machine learning.' });
+        expect(linkNote(createPlugin(vault), 'Note.md')).toBe('About [[Machine Learning|machine learning]].');
+    });
+
+    it('rewrites the matched text to the title when the casing is not preserved', () => {
+        const vault = new MemoryVault({ 'Machine Learning.md': '', 'Note.md': 'About machine learning.' });
+        expect(linkNote(createPlugin(vault, { preserveOriginalCasing: false }), 'Note.md')).toBe('About [[Machine Learning]].');
+    });
+});
+
+describe('link syntax', () => {
+    const syntaxVault = () => new MemoryVault({ 'Topics/Machine Learning (ML).md': '', 'Journal/2024/Note.md': 'About machine learning (ML).' });
+
+    it('writes Markdown links with an encoded path', () => {
+        const plugin = createPlugin(syntaxVault(), { linkStyle: 'markdown' });
+        expect(linkNote(plugin, 'Journal/2024/Note.md')).toBe('About [machine learning (ML)](Machine%20Learning%20%28ML%29.md).');
+    });
+
+    it('writes relative and absolute link paths', () => {
+        expect(linkNote(createPlugin(syntaxVault(), { linkPathFormat: 'relative' }), 'Journal/2024/Note.md'))
+            .toBe('About [[../../Topics/Machine Learning (ML)|machine learning (ML)]].');
+        expect(linkNote(createPlugin(syntaxVault(), { linkPathFormat: 'absolute' }), 'Journal/2024/Note.md'))
+            .toBe('About [[Topics/Machine Learning (ML)|machine learning (ML)]].');
+    });
+
+    it('follows the link options of the vault by default', () => {
+        const vault = syntaxVault();
+        vault.config = { useMarkdownLinks: true, newLinkFormat: 'absolute' };
+        expect(linkNote(createPlugin(vault), 'Journal/2024/Note.md')).toBe('About [machine learning (ML)](Topics/Machine%20Learning%20%28ML%29.md).');
+    });
+});
+
+describe('overlapping titles', () => {
+    it('links the longest title where titles overlap', () => {
+        const notes = { 'Machine.md': '', 'Machine Learning.md': '', 'Learning Rate.md': '', 'Note.md': 'Machine Learning Rate, and a Machine.' };
+        expect(linkNote(createPlugin(new MemoryVault(notes)), 'Note.md')).toBe('[[Machine Learning]] Rate, and a [[Machine]].');
+    });
+});
+
+describe('in-note directives', () => {
+    it('leaves the text between ignore markers alone', () => {
+        const content = 'Alpha\n%% tml-ignore-start %%\nAlpha\n%% tml-ignore-end %%\nAlpha';
+        const vault = new MemoryVault({ 'Alpha.md': '', 'Note.md': content });
+        expect(linkNote(createPlugin(vault), 'Note.md')).toBe('[[Alpha]]\n%% tml-ignore-start %%\nAlpha\n%% tml-ignore-end %%\n[[Alpha]]');
+    });
+
+    it('skips the targets listed in the tml-ignore frontmatter, as plain titles or wikilinks', () => {
+        const vault = new MemoryVault({ 'Alpha.md': '', 'Beta.md': '', 'Gamma.md': '', 'Note.md': 'Alpha, Beta, and Gamma.' });
+        const plugin = createPlugin(vault);
+        setMetadata(plugin, 'Note.md', { frontmatter: { 'tml-ignore': ['[[Alpha]]', 'beta'] } });
+        expect(linkNote(plugin, 'Note.md')).toBe('Alpha, Beta, and [[Gamma]].');
+    });
+
+    it('reads the opt-out from the tml frontmatter', () => {
+        const vault = new MemoryVault({ 'Note.md': '', 'Other.md': '' });
+        const plugin = createPlugin(vault);
+        setMetadata(plugin, 'Note.md', { frontmatter: { tml: false } });
+        setMetadata(plugin, 'Other.md', { frontmatter: { tml: 'false' } });
+        expect(plugin.isLinkingDisabled(vault.getFile('Note.md'))).toBe(true);
+        expect(plugin.isLinkingDisabled(vault.getFile('Other.md'))).toBe(true);
+        setMetadata(plugin, 'Other.md', { frontmatter: { tml: true } });
+        expect(plugin.isLinkingDisabled(vault.getFile('Other.md'))).toBe(false);
+    });
+});
+
+describe('title safeguards', () => {
+    it('never links ignored titles, whatever their casing', () => {
+        const vault = new MemoryVault({ 'Index.md': '', 'Alpha.md': '', 'Note.md': 'The index of Alpha.' });
+        expect(linkNote(createPlugin(vault, { ignoredTitles: ['INDEX'] }), 'Note.md')).toBe('The index of [[Alpha]].');
+    });
+
+    it('never links titles shorter than the minimum title length', () => {
+        const vault = new MemoryVault({ 'AI.md': '', 'Alpha.md': '', 'Note.md': 'AI and Alpha.' });
+        expect(linkNote(createPlugin(vault, { minimumTitleLength: 3 }), 'Note.md')).toBe('AI and [[Alpha]].');
+    });
+
+    it('finds the titles that appear in a large share of the notes', async () => {
+        const notes: Record<string, string> = { 'Home.md': '', 'Alpha.md': '' };
+        for (let index = 0; index < 10; index++) notes[`Note ${index}.md`] = index < 6 ? 'Back Home.' : 'Alpha.';
+        const plugin = createPlugin(new MemoryVault(notes), { commonTitleThreshold: 50 });
+        const matcher = plugin.buildTitleMatcher(plugin.getTargetFiles());
+        expect(await plugin.findCommonTitles(plugin.getSourceFiles(), matcher)).toEqual([{ title: 'Home', noteCount: 6 }]);
+    });
+});
+
+describe('link preview', () => {
+    afterEach(() => {
+        jest.restoreAllMocks();
+        jest.useRealTimers();
+    });
+
+    it('reports the links a run would add without modifying any note', async () => {
+        jest.useFakeTimers();
+        // The progress modal is never rendered, so it gets stand-ins for the elements it updates.
+        jest.spyOn(Modal.prototype, 'open').mockImplementation(function (this: Modal) {
+            Object.assign(this, { progressBar: { style: {} }, statusText: {}, estimatedTimeText: {} });
+        });
+        const vault = new MemoryVault({ 'Alpha.md': 'Beta.', 'Beta.md': '', 'Note.md': 'Alpha and Beta, then Alpha.' });
+        const plugin = createPlugin(vault, { detectCommonTitles: false });
+        const openLinkText = jest.fn();
+        Object.assign(plugin.app, { workspace: { openLinkText } });
+
+        await plugin.previewLinkCreation();
+
+        expect(vault.readPath('Note.md')).toBe('Alpha and Beta, then Alpha.');
+        expect(vault.readPath('Alpha.md')).toBe('Beta.');
+        expect(plugin.backupStore.entries.size).toBe(0);
+        const report = vault.readPath('_tmldata/LinkPreview.md');
+        expect(report).toContain('4 links would be added to 2 of 3 notes. No note was modified.');
+        expect(report).toContain('## Links per Target\n\n- Alpha.md: 2\n- Beta.md: 2\n');
+        expect(report).toContain('### Note.md (3)\n\n- Line 1: `«Alpha» and Beta, then Alpha.` → `[[Alpha]]`\n');
+        expect(openLinkText).toHaveBeenCalledWith('_tmldata/LinkPreview.md', '', false);
+    });
+});
@@ -0,0 +1,107 @@
+import { notices } from '../__mocks__/obsidian';
+import TitleMatchLinker from '../main';
+import { MemoryVault, createPlugin } from './helpers';
+
+const BACKUP_CONTENT = 'Alpha and Beta are friends.';
+const LINKED_CONTENT = '[[Alpha]] and [[Beta]] are friends.';
+
+/**
+ * Records a run that linked Alpha and Beta in `Note.md`, backing up `BACKUP_CONTENT`.
+ *
+ * @param {TitleMatchLinker} plugin - The plugin to record the run in.
+ * @returns The manifest of the run and the record of the note.
+ */
+async function recordRun(plugin: TitleMatchLinker) {
+    const runId = '20240101-000000';
+    const backupPath = await plugin.backupStore.create('_tmlbackups', runId, 'Note.md', BACKUP_CONTENT);
+    const record: TitleMatchLinker['manifests'][number]['files'][number] = {
+        path: 'Note.md',
+        backupPath,
+        changeLogPath: null,
+        status: 'pending',
+        links: [
+            { offset: 0, linkedOffset: 0, originalText: 'Alpha', linkText: '[[Alpha]]', targetPath: 'Alpha.md' },
+            { offset: 10, linkedOffset: 14, originalText: 'Beta', linkText: '[[Beta]]', targetPath: 'Beta.md' },
+        ],
+    };
+    const manifest = { version: 1, runId, timestamp: '2024-01-01T00:00:00.000Z', scope: 'note', settings: plugin.settings, files: [record] } as TitleMatchLinker['manifests'][number];
+    plugin.manifests.push(manifest);
+    return { manifest, record };
+}
+
+describe('reverting links', () => {
+    let vault: MemoryVault;
+    let plugin: TitleMatchLinker;
+
+    beforeEach(() => {
+        notices.length = 0;
+        vault = new MemoryVault();
+        plugin = createPlugin(vault);
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('follows links shifted by edits made after the run', async () => {
+        const { manifest, record } = await recordRun(plugin);
+        vault.files.set('Note.md', `A new first paragraph.\n\n${LINKED_CONTENT} Really.`);
+
+        expect(await plugin.locateLinks(record, vault.readPath('Note.md'))).toEqual([24, 38]);
+        expect(await plugin.revertLinks(manifest, record, () => true)).toBe(2);
+        expect(vault.readPath('Note.md')).toBe(`A new first paragraph.\n\n${BACKUP_CONTENT} Really.`);
+        expect(record.status).toBe('reverted');
+        expect(plugin.backupStore.has(record.backupPath)).toBe(false);
+    });
+
+    it('leaves a link written by the user in place', async () => {
+        const { manifest, record } = await recordRun(plugin);
+        vault.files.set('Note.md', `See [[Beta]] first.\n\n${LINKED_CONTENT}`);
+
+        expect(await plugin.revertLinks(manifest, record, link => link.targetPath === 'Beta.md')).toBe(1);
+        expect(vault.readPath('Note.md')).toBe('See [[Beta]] first.\n\n[[Alpha]] and Beta are friends.');
+        // The remaining link is recorded at its new position.
+        expect(record.links).toEqual([{ ...record.links[0], linkedOffset: 21 }]);
+        expect(record.status).toBe('pending');
+    });
+
+    it('reports an edited link as missing instead of reverting another occurrence', async () => {
+        const { manifest, record } = await recordRun(plugin);
+        vault.files.set('Note.md', '[[Alpha|A]] and [[Beta]] are friends. [[Alpha]] again.');
+
+        expect(await plugin.revertLinks(manifest, record, () => true)).toBe(1);
+        expect(vault.readPath('Note.md')).toBe('[[Alpha|A]] and Beta are friends. [[Alpha]] again.');
+        expect(record.links.map(link => link.targetPath)).toEqual(['Alpha.md']);
+        expect(notices).toContain('1 links could not be found in "Note.md" and were left in place.');
+    });
+
+    it('keeps later edits when merging a revert', async () => {
+        const { record } = await recordRun(plugin);
+        const current = `${LINKED_CONTENT}\n\nA later paragraph.`;
+        expect(plugin.mergeRevert(BACKUP_CONTENT, current, record)).toEqual({ content: `${BACKUP_CONTENT}\n\nA later paragraph.`, conflicts: [] });
+    });
+
+    it('reports a conflict when an edit overlaps a link', async () => {
+        const { record } = await recordRun(plugin);
+        const { content, conflicts } = plugin.mergeRevert(BACKUP_CONTENT, '[[Alpha]] and [[Beta]]s are friends.', record);
+        expect(content).toBeNull();
+        expect(conflicts).toEqual([{ lineNumber: 1, baseText: '[[Beta]]', currentText: '[[Beta]]s', revertedText: 'Beta' }]);
+    });
+});
+
+describe('accepting sessions', () => {
+    it('keeps the log of a single-note session, which the session history still lists', async () => {
+        const vault = new MemoryVault({ 'Note.md': LINKED_CONTENT });
+        const plugin = createPlugin(vault);
+        const { manifest, record } = await recordRun(plugin);
+        const logPath = plugin.getSessionLogPath(manifest.runId);
+        record.changeLogPath = logPath;
+        vault.files.set(logPath, '# Links Added to Note.md');
+
+        await plugin.acceptSession(manifest);
+        expect(record.status).toBe('accepted');
+        expect(plugin.backupStore.has(record.backupPath)).toBe(false);
+        expect(vault.files.has(logPath)).toBe(true);
+    });
+});
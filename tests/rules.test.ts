@@ -0,0 +1,75 @@
+import { CachedMetadata } from 'obsidian';
+import { MemoryMetadataCache, MemoryVault, createPlugin } from './helpers';
+
+describe('exclusion rules', () => {
+    const plugin = createPlugin(new MemoryVault(), {
+        excludedFolders: ['Archive', '!Archive/Keep.md', '*.excalidraw.md', 'Projects/*.md', '/^journal\\/\\d{4}/i'],
+    });
+
+    it('excludes a plain path and everything inside it, but not names that only start with it', () => {
+        expect(plugin.isExcluded('Archive/Old.md')).toBe(true);
+        expect(plugin.isExcluded('Archive/2020/Old.md')).toBe(true);
+        expect(plugin.isExcluded('Archive 2/Old.md')).toBe(false);
+        expect(plugin.isExcluded('Archived.md')).toBe(false);
+    });
+
+    it('re-includes paths with a negated rule', () => {
+        expect(plugin.isExcluded('Archive/Keep.md')).toBe(false);
+    });
+
+    it('matches globs against names, or against paths when they contain a slash', () => {
+        expect(plugin.isExcluded('Drawings/Sketch.excalidraw.md')).toBe(true);
+        expect(plugin.isExcluded('Projects/Alpha.md')).toBe(true);
+        expect(plugin.isExcluded('Projects/Alpha/Notes.md')).toBe(false);
+    });
+
+    it('tests regular expressions against the full path', () => {
+        expect(plugin.isExcluded('Journal/2024-01-01.md')).toBe(true);
+        expect(plugin.isExcluded('Notes/Journal/2024-01-01.md')).toBe(false);
+    });
+
+    it('reports invalid rules instead of applying them', () => {
+        const invalid = createPlugin(new MemoryVault(), { excludedFolders: ['/[/'] });
+        expect(invalid.exclusionRules.errors).toHaveLength(1);
+        expect(invalid.isExcluded('[.md')).toBe(false);
+    });
+});
+
+describe('scopes', () => {
+    const metadata: Record<string, CachedMetadata> = {
+        'Physics.md': { frontmatter: { tags: ['concept/physics'] } },
+        'Daily.md': { tags: [{ tag: '#concept', position: { start: { line: 0, col: 0, offset: 0 }, end: { line: 0, col: 8, offset: 8 } } }] },
+        'Atom.md': { frontmatter: { type: ['Term', 'Concept'] } },
+    };
+    const vault = new MemoryVault({ 'Physics.md': '', 'Daily.md': '', 'Atom.md': '', 'Glossary/Energy.md': '', 'Other.md': '' });
+    const paths = (files: { path: string }[]) => files.map(file => file.path).sort();
+
+    /**
+     * Creates a plugin on the vault with the given scopes.
+     *
+     * @param {string[]} sourceScope - The notes that may be modified.
+     * @param {string[]} targetScope - The notes that may be linked to.
+     * @returns The plugin, with the metadata of the notes.
+     */
+    function withScopes(sourceScope: string[], targetScope: string[]) {
+        const plugin = createPlugin(vault, { sourceScope, targetScope });
+        Object.entries(metadata).forEach(([path, cache]) => (plugin.app.metadataCache as unknown as MemoryMetadataCache).metadata.set(path, cache));
+        return plugin;
+    }
+
+    it('contains every note when it has no rules', () => {
+        expect(paths(withScopes([], []).getSourceFiles())).toEqual(paths(vault.getMarkdownFiles()));
+    });
+
+    it('selects notes by folder, by tag including nested tags, and by property value', () => {
+        const plugin = withScopes(['tag:#concept'], ['folder:Glossary', 'property:type=concept']);
+        expect(paths(plugin.getSourceFiles())).toEqual(['Daily.md', 'Physics.md']);
+        expect(paths(plugin.getTargetFiles())).toEqual(['Atom.md', 'Glossary/Energy.md']);
+    });
+
+    it('links source notes only to target notes', () => {
+        const plugin = withScopes(['Other.md'], ['folder:Glossary']);
+        const matcher = plugin.buildTitleMatcher(plugin.getTargetFiles());
+        expect(plugin.processContent('Energy and Atom.', matcher, vault.getFile('Other.md')).content).toBe('[[Energy]] and Atom.');
+    });
+});